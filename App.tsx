@@ -1,155 +1,345 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useEffectEvent } from 'react';
 import {
   StyleSheet,
   Text,
   View,
   TextInput,
   TouchableOpacity,
-  ScrollView,
+  FlatList,
+  RefreshControl,
   Alert,
   ActivityIndicator,
   SafeAreaView,
   KeyboardAvoidingView,
   Platform,
+  Linking,
+  Image,
 } from 'react-native';
 import { useItems, Item } from './hooks/useItems';
+import { useSubtasks } from './hooks/useSubtasks';
+import { useAttachments } from './hooks/useAttachments';
+import { useCategories } from './hooks/useCategories';
+import { useAppLock } from './hooks/useAppLock';
+import { useProfile } from './hooks/useProfile';
+import { useLists } from './hooks/useLists';
+import { usePeople, personName } from './hooks/usePeople';
+import { useNotifications } from './hooks/useNotifications';
+import { AuthProvider, useAuth } from './hooks/useAuth';
 import { AuthScreen } from './screens/AuthScreen';
-import { supabase } from './lib/supabase';
-
-const PRIORITIES = ['High', 'Medium', 'Low'] as const;
-type Priority = typeof PRIORITIES[number];
+import { ResetPasswordScreen } from './screens/ResetPasswordScreen';
+import { ProfileScreen } from './screens/ProfileScreen';
+import { ListMembersScreen } from './screens/ListMembersScreen';
+import { TaskDetailScreen, TaskDetailTab } from './screens/TaskDetailScreen';
+import { TrashScreen } from './screens/TrashScreen';
+import { ConfigGate } from './components/ConfigGate';
+import { AppLockOverlay } from './components/AppLockOverlay';
+import { Avatar } from './components/Avatar';
+import { ListSwitcher } from './components/ListSwitcher';
+import { NotificationBanner } from './components/NotificationBanner';
+import { AssigneePicker } from './components/AssigneePicker';
+import { ConflictResolver } from './components/ConflictResolver';
+import { FilterBar } from './components/FilterBar';
+import { CategoryPicker } from './components/CategoryPicker';
+import { CategoryBadge } from './components/CategoryBadge';
+import { SubtaskList } from './components/SubtaskList';
+import { DueDatePicker, formatDueDate } from './components/DueDatePicker';
+import { createSessionFromUrl, isAuthLink } from './lib/authLinks';
+import { REMINDER_OPTIONS } from './lib/reminders';
+import { isLocalId } from './lib/taskStore';
+import {
+  ASSIGNED_TO_ME,
+  PRIORITIES,
+  Priority,
+  STATUS_LABELS,
+  hasFilters,
+} from './lib/taskQuery';
 
-const App = () => {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [isCheckingAuth, setIsCheckingAuth] = useState(true);
-  const [userEmail, setUserEmail] = useState<string | null>(null);
-  const { items, loading, error, createItem, updateItem, deleteItem, fetchHighPriorityTasks, fetchItems, clearItems } =
-    useItems();
+const TaskApp = () => {
+  const { user, isLoading: isCheckingAuth, isMfaRequired, signOut } =
+    useAuth();
+  const isAuthenticated = !!user;
+  const userEmail = user?.email || null;
+  // Tasks and categories load once any second factor has been verified
+  const activeUserId = user && isMfaRequired === false ? user.id : null;
+  // Signed in from a recovery link and still needs to pick a new password
+  const [isRecoveringPassword, setIsRecoveringPassword] = useState(false);
+  const [isProfileOpen, setIsProfileOpen] = useState(false);
+  const [isListMembersOpen, setIsListMembersOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const {
+    lists,
+    selectedList,
+    selectedListId,
+    // False for viewers of a shared list
+    canEdit,
+    canEditTask,
+    invitations,
+    refresh: refreshLists,
+    selectList,
+    createList,
+    deleteList,
+    leaveList,
+    acceptInvitation,
+    declineInvitation,
+  } = useLists();
+  const { profile, avatarUrl, updateDisplayName, uploadAvatar } =
+    useProfile(activeUserId);
+  const displayName = profile?.display_name || userEmail;
+  const { people, assigneesFor } = usePeople(lists.map(list => list.id));
+  const { notifications, markRead } = useNotifications();
+  const {
+    items,
+    loading,
+    loadingMore,
+    refreshing,
+    hasMore,
+    error,
+    isOffline,
+    pendingIds,
+    conflicts,
+    itemErrors,
+    recentlyDeleted,
+    query,
+    setQuery,
+    createItem,
+    updateItem,
+    setItemStatus,
+    deleteItem,
+    undoDelete,
+    dismissItemError,
+    fetchItems,
+    loadMore,
+    refresh,
+    resolveConflict,
+    dismissConflict,
+  } = useItems(selectedListId);
+  const {
+    subtasks,
+    error: subtaskError,
+    loadSubtasks,
+    progressFor,
+    addSubtask,
+    updateSubtask,
+    toggleSubtask,
+    moveSubtask,
+    deleteSubtask,
+    clearSubtasks,
+  } = useSubtasks();
+  // Kept here so uploads carry on after the task detail screen closes
+  const {
+    attachments,
+    urls: attachmentUrls,
+    error: attachmentError,
+    loadAttachments,
+    imagesFor,
+    uploadsFor,
+    addAttachment,
+    cancelUpload,
+    deleteAttachment,
+  } = useAttachments();
+  const {
+    categories,
+    categoriesById,
+    fetchCategories,
+    createCategory,
+    updateCategory,
+    mergeCategories,
+    deleteCategory,
+    clearCategories,
+  } = useCategories();
+  // Waits for the restored session, so a cold start can lock straight away
+  const appLock = useAppLock(isCheckingAuth ? undefined : user?.id ?? null);
   const [title, setTitle] = useState('');
-  const [category, setCategory] = useState('');
+  const [categoryId, setCategoryId] = useState<string | null>(null);
   const [priority, setPriority] = useState<Priority>('Medium');
+  const [dueAt, setDueAt] = useState<string | null>(null);
+  const [reminderOffsets, setReminderOffsets] = useState<number[]>([]);
+  const [assigneeId, setAssigneeId] = useState<string | null>(null);
   const [editingItem, setEditingItem] = useState<Item | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Card whose checklist is open
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  // Task whose comments or history are showing
+  const [detail, setDetail] = useState<{
+    item: Item;
+    tab: TaskDetailTab;
+  } | null>(null);
 
+  // Email confirmation and password reset links open the app by URL
   useEffect(() => {
-    // Check if user is already authenticated
-    const checkAuth = async () => {
+    const handleUrl = async (url: string | null) => {
+      if (!url || !isAuthLink(url)) return;
       try {
-        const { data: { session } } = await supabase.auth.getSession();
-        setIsAuthenticated(!!session);
-        setUserEmail(session?.user?.email || null);
-        
-        // Clear items first to prevent showing previous user's data
-        clearItems();
-        
-        // Fetch items if user is already authenticated
-        if (session) {
-          fetchItems();
+        // Signs in, which AuthProvider picks up
+        const type = await createSessionFromUrl(url);
+        if (type === 'recovery') {
+          setIsRecoveringPassword(true);
         }
-      } catch (error) {
-        console.error('Error checking auth:', error);
-        // Clear items on error too
-        clearItems();
-      } finally {
-        setIsCheckingAuth(false);
+      } catch (err: any) {
+        Alert.alert('Error', err.message || 'This link could not be used');
       }
     };
 
-    checkAuth();
-
-    // Listen for auth state changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
-      const isNowAuthenticated = !!session;
-      
-      // Always clear items first when auth state changes
-      clearItems();
-      
-      setIsAuthenticated(isNowAuthenticated);
-      setUserEmail(session?.user?.email || null);
-      
-      // Fetch items only when user logs in (when session exists)
-      if (session) {
-        fetchItems();
-      }
-      // When session is null (logout), items are already cleared above
-    });
+    Linking.getInitialURL().then(handleUrl);
+    const subscription = Linking.addEventListener('url', ({ url }) =>
+      handleUrl(url),
+    );
 
     return () => {
-      subscription.unsubscribe();
+      subscription.remove();
     };
   }, []);
 
-  const handleAuthSuccess = () => {
-    // Clear any existing items first
-    clearItems();
-    setIsAuthenticated(true);
-    // Fetch items immediately after successful login
-    fetchItems();
-  };
+  // The previous user's checklists and categories go as soon as they do
+  const onUserChange = useEffectEvent((userId: string | null) => {
+    clearSubtasks();
+    if (userId) {
+      fetchCategories();
+    } else {
+      clearCategories();
+    }
+  });
+
+  useEffect(() => {
+    onUserChange(activeUserId);
+  }, [activeUserId]);
+
+  // An edit in progress belongs to the list it was started in
+  const onListChange = useEffectEvent(() => {
+    resetForm();
+    setExpandedId(null);
+  });
+
+  useEffect(() => {
+    onListChange();
+  }, [selectedListId]);
+
+  // Load checklists and attachments for newly listed tasks (both show on
+  // every card)
+  const onItemsChange = useEffectEvent((taskIds: string[]) => {
+    loadSubtasks(taskIds);
+    loadAttachments(taskIds);
+  });
+
+  useEffect(() => {
+    onItemsChange(items.map(item => item.id));
+  }, [items]);
 
   const handleLogout = async () => {
-    try {
-      // Clear items immediately and synchronously before logging out
-      clearItems();
-      setIsAuthenticated(false); // Update auth state immediately
-      setUserEmail(null); // Clear email immediately
-      
-      const { error } = await supabase.auth.signOut();
-      if (error) throw error;
-    } catch (error: any) {
-      Alert.alert('Error', error.message || 'Failed to logout');
-      // Even on error, keep items cleared and user logged out
-      clearItems();
-      setIsAuthenticated(false);
-      setUserEmail(null);
+    setIsProfileOpen(false);
+    // Items, checklists and categories clear themselves once the user is gone
+    const result = await signOut();
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to logout');
     }
   };
 
   const handleSubmit = async () => {
-    if (!title.trim() || !category.trim()) {
-      Alert.alert('Error', 'Please fill in both title and category');
+    if (!title.trim() || !categoryId) {
+      Alert.alert('Error', 'Please enter a title and choose a category');
       return;
     }
 
     setIsSubmitting(true);
     let result;
+    const fields = {
+      title: title.trim(),
+      category: categoryId,
+      priority,
+      due_at: dueAt,
+      // Reminders are relative to the due date, so drop them without one
+      reminder_offsets: dueAt ? reminderOffsets : [],
+      assignee_id: assigneeId,
+    };
 
     if (editingItem) {
-      result = await updateItem(editingItem.id, title.trim(), category.trim(), priority);
+      // Pass the item as it was when editing started so concurrent edits are caught
+      result = await updateItem(editingItem.id, fields, editingItem);
     } else {
-      result = await createItem(title.trim(), category.trim(), priority);
+      result = await createItem(fields);
     }
 
     setIsSubmitting(false);
 
     if (result.success) {
-      setTitle('');
-      setCategory('');
-      setPriority('Medium');
-      setEditingItem(null);
+      resetForm();
     } else {
       Alert.alert('Error', result.error || 'Something went wrong');
     }
   };
 
+  const resetForm = () => {
+    setTitle('');
+    setCategoryId(null);
+    setPriority('Medium');
+    setDueAt(null);
+    setReminderOffsets([]);
+    // New tasks in the assigned view are the user's, so keep them in it
+    setAssigneeId(selectedListId === ASSIGNED_TO_ME ? activeUserId : null);
+    setEditingItem(null);
+  };
+
   const handleEdit = (item: Item) => {
     setTitle(item.title);
-    setCategory(item.category);
+    setCategoryId(item.category);
     setPriority(item.priority as Priority);
+    setDueAt(item.due_at ?? null);
+    setReminderOffsets(item.reminder_offsets ?? []);
+    setAssigneeId(item.assignee_id ?? null);
     setEditingItem(item);
   };
 
   const handleCancel = () => {
-    setTitle('');
-    setCategory('');
-    setPriority('Medium');
-    setEditingItem(null);
+    resetForm();
+  };
+
+  const toggleReminder = (minutes: number) => {
+    setReminderOffsets(prev =>
+      prev.includes(minutes)
+        ? prev.filter(m => m !== minutes)
+        : [...prev, minutes].sort((a, b) => a - b),
+    );
+  };
+
+  const handleToggleDone = async (item: Item) => {
+    const result = await setItemStatus(
+      item.id,
+      item.status === 'done' ? 'open' : 'done',
+    );
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to update item');
+    }
+  };
+
+  const handleToggleInProgress = async (item: Item) => {
+    const result = await setItemStatus(
+      item.id,
+      item.status === 'in_progress' ? 'open' : 'in_progress',
+    );
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to update item');
+    }
+  };
+
+  const handleMergeCategories = async (sourceId: string, targetId: string) => {
+    const result = await mergeCategories(sourceId, targetId);
+    if (result.success) {
+      // Tasks moved to the other category on the server
+      fetchItems();
+    }
+    return result;
+  };
+
+  const handleRefresh = () => {
+    loadSubtasks(items.map(item => item.id), true);
+    loadAttachments(items.map(item => item.id), true);
+    refresh();
   };
 
   const handleDelete = (item: Item) => {
     Alert.alert(
       'Delete Item',
-      `Are you sure you want to delete "${item.title}"?`,
+      `Move "${item.title}" to the Trash? You can restore it from there.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -178,6 +368,32 @@ const App = () => {
     });
   };
 
+  const getCategory = (id: string | null) =>
+    id ? categoriesById.get(id) : undefined;
+
+  const getAssignee = (id?: string | null) => (id ? people[id] : undefined);
+
+  // Names for the ids stored on tasks, for conflicts and history
+  const valueFormatters = {
+    category: (id: unknown) =>
+      getCategory(typeof id === 'string' ? id : null)?.name ?? 'Uncategorized',
+    assignee_id: (id: unknown) => {
+      const assignee = getAssignee(typeof id === 'string' ? id : null);
+      return assignee ? personName(assignee) : 'Unassigned';
+    },
+  };
+
+  // The list the task in the form belongs to, whose members can take it
+  const formListId = editingItem
+    ? editingItem.list_id ?? null
+    : selectedList?.id ?? null;
+
+  const getDueStatus = (dateString: string) => {
+    const due = new Date(dateString);
+    if (due.getTime() < Date.now()) return 'overdue';
+    return due.toDateString() === new Date().toDateString() ? 'today' : 'upcoming';
+  };
+
   const getPriorityColor = (priority: string) => {
     switch (priority.toLowerCase()) {
       case 'high':
@@ -204,8 +420,291 @@ const App = () => {
     }
   };
 
+  const renderAssignee = (item: Item) => {
+    const assignee = getAssignee(item.assignee_id);
+    return (
+      assignee && (
+        <Avatar
+          url={assignee.avatarUrl}
+          name={personName(assignee)}
+          size={28}
+          testID={`item-assignee-${item.id}`}
+        />
+      )
+    );
+  };
+
+  // The first few photos, as a strip under the card's badges
+  const renderThumbnails = (item: Item) => {
+    const images = imagesFor(item.id)
+      .filter(image => attachmentUrls[image.path])
+      .slice(0, 3);
+    if (images.length === 0) return null;
+    return (
+      <TouchableOpacity
+        style={styles.thumbnailRow}
+        onPress={() => setDetail({ item, tab: 'files' })}
+        testID={`item-thumbnails-${item.id}`}
+      >
+        {images.map(image => (
+          <Image
+            key={image.id}
+            source={{ uri: attachmentUrls[image.path] }}
+            style={styles.thumbnail}
+          />
+        ))}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderUploadProgress = (item: Item) => {
+    const uploads = uploadsFor(item.id);
+    if (uploads.length === 0) return null;
+    const progress =
+      uploads.reduce((sum, upload) => sum + upload.progress, 0) /
+      uploads.length;
+    return (
+      <View style={styles.pendingBadge} testID={`item-uploading-${item.id}`}>
+        <Text style={styles.pendingText}>
+          {uploads.some(upload => upload.error)
+            ? 'Upload paused'
+            : `Uploading ${Math.round(progress * 100)}%`}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderItem = ({ item }: { item: Item }) => (
+    <View style={styles.itemCard} testID={`item-card-${item.id}`}>
+      <View style={styles.itemHeader}>
+        <TouchableOpacity
+          style={[
+            styles.doneToggle,
+            item.status === 'done' && styles.doneToggleChecked,
+          ]}
+          onPress={() => handleToggleDone(item)}
+          disabled={!canEditTask(item.list_id)}
+          testID={`done-toggle-${item.id}`}
+        >
+          {item.status === 'done' && <Text style={styles.doneToggleMark}>✓</Text>}
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.itemContent}
+          onPress={() => setDetail({ item, tab: 'comments' })}
+          // Comments need the task to be on the server
+          disabled={isLocalId(item.id)}
+          testID={`item-open-${item.id}`}
+        >
+          <Text
+            style={[
+              styles.itemTitle,
+              item.status === 'done' && styles.itemTitleDone,
+            ]}
+            testID={`item-title-${item.id}`}
+          >
+            {item.title}
+          </Text>
+          {item.status === 'done' && item.completed_at ? (
+            <Text style={styles.itemDate} testID={`item-completed-${item.id}`}>
+              Completed {formatDate(item.completed_at)}
+            </Text>
+          ) : (
+            item.created_at && (
+              <Text style={styles.itemDate} testID={`item-date-${item.id}`}>
+                {formatDate(item.created_at)}
+              </Text>
+            )
+          )}
+        </TouchableOpacity>
+        {renderAssignee(item)}
+      </View>
+      <View style={styles.itemMeta}>
+        <CategoryBadge
+          category={getCategory(item.category)}
+          testID={`item-category-${item.id}`}
+        />
+        <View
+          style={[
+            styles.priorityBadge,
+            {
+              backgroundColor: getPriorityBgColor(item.priority),
+            },
+          ]}
+          testID={`item-priority-${item.id}`}
+        >
+          <View
+            style={[
+              styles.priorityDotSmall,
+              { backgroundColor: getPriorityColor(item.priority) },
+            ]}
+          />
+          <Text
+            style={[
+              styles.priorityText,
+              { color: getPriorityColor(item.priority) },
+            ]}
+          >
+            {item.priority}
+          </Text>
+        </View>
+        {item.status !== 'done' && (
+          <TouchableOpacity
+            style={[
+              styles.statusBadge,
+              item.status === 'in_progress' && styles.statusBadgeActive,
+            ]}
+            onPress={() => handleToggleInProgress(item)}
+            disabled={!canEditTask(item.list_id)}
+            testID={`item-status-${item.id}`}
+          >
+            <Text
+              style={[
+                styles.statusText,
+                item.status === 'in_progress' && styles.statusTextActive,
+              ]}
+            >
+              {STATUS_LABELS[item.status ?? 'open']}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {item.due_at && item.status !== 'done' && (
+          <View
+            style={[
+              styles.dueBadge,
+              getDueStatus(item.due_at) === 'overdue' && styles.dueBadgeOverdue,
+              getDueStatus(item.due_at) === 'today' && styles.dueBadgeToday,
+            ]}
+            testID={`item-due-${item.id}`}
+          >
+            <Text
+              style={[
+                styles.dueText,
+                getDueStatus(item.due_at) === 'overdue' && styles.dueTextOverdue,
+                getDueStatus(item.due_at) === 'today' && styles.dueTextToday,
+              ]}
+            >
+              {getDueStatus(item.due_at) === 'overdue'
+                ? 'Overdue'
+                : getDueStatus(item.due_at) === 'today'
+                  ? 'Due today'
+                  : `Due ${formatDueDate(item.due_at)}`}
+            </Text>
+          </View>
+        )}
+        {progressFor(item.id) && (
+          <TouchableOpacity
+            style={styles.progressBadge}
+            onPress={() =>
+              setExpandedId(expandedId === item.id ? null : item.id)
+            }
+            testID={`item-progress-${item.id}`}
+          >
+            <Text style={styles.progressText}>
+              ☑ {progressFor(item.id)?.done}/{progressFor(item.id)?.total}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {(attachments[item.id]?.length ?? 0) > 0 && (
+          <TouchableOpacity
+            style={styles.progressBadge}
+            onPress={() => setDetail({ item, tab: 'files' })}
+            testID={`item-attachments-${item.id}`}
+          >
+            <Text style={styles.progressText}>
+              📎 {attachments[item.id].length}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {renderUploadProgress(item)}
+        {pendingIds.has(item.id) && (
+          <View style={styles.pendingBadge} testID={`item-pending-${item.id}`}>
+            <Text style={styles.pendingText}>Pending sync</Text>
+          </View>
+        )}
+      </View>
+      {renderThumbnails(item)}
+      {itemErrors[item.id] && (
+        <TouchableOpacity
+          style={styles.itemError}
+          onPress={() => dismissItemError(item.id)}
+          testID={`item-error-${item.id}`}
+        >
+          <Text style={styles.itemErrorText}>
+            Your last change was undone: {itemErrors[item.id]}
+          </Text>
+          <Text style={styles.itemErrorDismiss}>Dismiss</Text>
+        </TouchableOpacity>
+      )}
+      {expandedId === item.id && (
+        <SubtaskList
+          taskId={item.id}
+          subtasks={subtasks[item.id] || []}
+          canEdit={!isLocalId(item.id)}
+          readOnly={!canEditTask(item.list_id)}
+          onAdd={subtaskTitle => addSubtask(item.id, subtaskTitle)}
+          onUpdate={updateSubtask}
+          onToggle={toggleSubtask}
+          onMove={moveSubtask}
+          onDelete={deleteSubtask}
+        />
+      )}
+      <View style={styles.itemActions}>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.checklistButton]}
+          onPress={() => setExpandedId(expandedId === item.id ? null : item.id)}
+          testID={`checklist-button-${item.id}`}
+        >
+          <Text style={styles.checklistButtonText}>
+            {expandedId === item.id ? 'Hide' : 'Checklist'}
+          </Text>
+        </TouchableOpacity>
+        {!isLocalId(item.id) && (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.checklistButton]}
+            onPress={() => setDetail({ item, tab: 'history' })}
+            testID={`history-button-${item.id}`}
+          >
+            <Text style={styles.checklistButtonText}>History</Text>
+          </TouchableOpacity>
+        )}
+        {canEditTask(item.list_id) && (
+          <>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.editButton]}
+              onPress={() => handleEdit(item)}
+              testID={`edit-button-${item.id}`}
+            >
+              <Text style={styles.editButtonText}>Edit</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.deleteButton]}
+              onPress={() => handleDelete(item)}
+              testID={`delete-button-${item.id}`}
+            >
+              <Text style={styles.deleteButtonText}>Delete</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </View>
+  );
+
+  // Blurs whichever screen is showing while the app is locked
+  const withAppLock = (screen: React.ReactElement) => (
+    <View style={styles.lockContainer}>
+      {screen}
+      {appLock.isObscured && (
+        <AppLockOverlay
+          isLocked={appLock.isLocked}
+          onUnlock={appLock.unlock}
+          onLogout={handleLogout}
+        />
+      )}
+    </View>
+  );
+
   // Show loading while checking auth
-  if (isCheckingAuth) {
+  if (isCheckingAuth || !appLock.isLoaded) {
     return (
       <SafeAreaView style={styles.container} testID="app-container">
         <View style={styles.loadingContainer}>
@@ -216,13 +715,81 @@ const App = () => {
     );
   }
 
-  // Show auth screen if not authenticated
-  if (!isAuthenticated) {
-    return <AuthScreen onAuthSuccess={handleAuthSuccess} />;
+  // Show auth screen if not authenticated, or until MFA is complete
+  if (!isAuthenticated || isMfaRequired !== false) {
+    return <AuthScreen />;
+  }
+
+  if (isRecoveringPassword) {
+    return withAppLock(
+      <ResetPasswordScreen onDone={() => setIsRecoveringPassword(false)} />
+    );
+  }
+
+  if (isListMembersOpen && selectedList) {
+    return withAppLock(
+      <ListMembersScreen
+        list={selectedList}
+        onBack={() => {
+          setIsListMembersOpen(false);
+          // Roles may have changed while the screen was open
+          refreshLists();
+        }}
+        onLeave={leaveList}
+        onDelete={deleteList}
+      />
+    );
+  }
+
+  if (detail) {
+    return withAppLock(
+      <TaskDetailScreen
+        // Follows live edits while the task is still listed
+        task={items.find(item => item.id === detail.item.id) ?? detail.item}
+        initialTab={detail.tab}
+        people={people}
+        formatters={valueFormatters}
+        canEdit={canEditTask(detail.item.list_id)}
+        attachments={attachments[detail.item.id] || []}
+        attachmentUrls={attachmentUrls}
+        uploads={uploadsFor(detail.item.id)}
+        attachmentError={attachmentError}
+        onAddAttachment={file => addAttachment(detail.item.id, file)}
+        onDeleteAttachment={deleteAttachment}
+        onCancelUpload={cancelUpload}
+        onBack={() => setDetail(null)}
+      />
+    );
+  }
+
+  if (isTrashOpen) {
+    return withAppLock(
+      <TrashScreen
+        lists={lists}
+        canEditTask={canEditTask}
+        onBack={() => setIsTrashOpen(false)}
+        onRestored={fetchItems}
+      />
+    );
+  }
+
+  if (isProfileOpen) {
+    return withAppLock(
+      <ProfileScreen
+        email={userEmail}
+        displayName={profile?.display_name ?? null}
+        avatarUrl={avatarUrl}
+        onBack={() => setIsProfileOpen(false)}
+        onChangeDisplayName={updateDisplayName}
+        onChangeAvatar={uploadAvatar}
+        lockSettings={appLock.settings}
+        onChangeLockSettings={appLock.updateSettings}
+      />
+    );
   }
 
   // Show main app if authenticated
-  return (
+  return withAppLock(
     <SafeAreaView style={styles.container} testID="app-container">
       <KeyboardAvoidingView
         behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
@@ -235,231 +802,336 @@ const App = () => {
               <Text style={styles.headerSubtitle}>
                 {editingItem ? 'Edit Item' : 'Create & Manage Items'}
               </Text>
-              {userEmail && (
-                <Text style={styles.userEmail} testID="user-email">
-                  {userEmail}
-                </Text>
+              {displayName && (
+                <TouchableOpacity
+                  style={styles.userRow}
+                  onPress={() => setIsProfileOpen(true)}
+                  testID="user-profile"
+                >
+                  <Avatar url={avatarUrl} name={displayName} size={24} />
+                  <Text style={styles.userName} testID="user-name">
+                    {displayName}
+                  </Text>
+                </TouchableOpacity>
               )}
             </View>
-            <TouchableOpacity
-              style={styles.logoutButton}
-              onPress={handleLogout}
-              testID="logout-button"
-            >
-              <Text style={styles.logoutButtonText}>Logout</Text>
-            </TouchableOpacity>
+            <View style={styles.headerButtons}>
+              <TouchableOpacity
+                style={styles.logoutButton}
+                onPress={() => setIsTrashOpen(true)}
+                testID="trash-button"
+              >
+                <Text style={styles.logoutButtonText}>Trash</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.logoutButton}
+                onPress={() => setIsProfileOpen(true)}
+                testID="profile-button"
+              >
+                <Text style={styles.logoutButtonText}>Profile</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.logoutButton}
+                onPress={handleLogout}
+                testID="logout-button"
+              >
+                <Text style={styles.logoutButtonText}>Logout</Text>
+              </TouchableOpacity>
+            </View>
           </View>
+          <ListSwitcher
+            lists={lists}
+            selectedListId={selectedListId}
+            selectedList={selectedList}
+            invitations={invitations}
+            onOpen={refreshLists}
+            onSelect={selectList}
+            onCreate={createList}
+            onAccept={acceptInvitation}
+            onDecline={declineInvitation}
+            onManageMembers={() => setIsListMembersOpen(true)}
+          />
         </View>
 
-        <ScrollView
+        {isOffline && (
+          <View style={styles.offlineBanner} testID="offline-banner">
+            <Text style={styles.offlineBannerText}>
+              You're offline. Changes will sync when you reconnect.
+            </Text>
+          </View>
+        )}
+
+        <NotificationBanner
+          notifications={notifications}
+          onView={notification => {
+            selectList(ASSIGNED_TO_ME);
+            markRead(notification.id);
+          }}
+          onDismiss={notification => markRead(notification.id)}
+        />
+
+        <FlatList
           style={styles.scrollView}
           contentContainerStyle={styles.scrollContent}
-          testID="items-scroll-view"
-        >
-          {/* Form Section */}
-          <View style={styles.formContainer} testID="form-container">
-            <View style={styles.inputContainer}>
-              <Text style={styles.label}>Title</Text>
-              <TextInput
-                style={styles.input}
-                placeholder="Enter item title"
-                placeholderTextColor="#999"
-                value={title}
-                onChangeText={setTitle}
-                testID="title-input"
-              />
-            </View>
-
-            <View style={styles.inputContainer}>
-              <Text style={styles.label}>Category</Text>
-              <TextInput
-                style={styles.input}
-                placeholder="e.g., Shopping, Work, Personal"
-                placeholderTextColor="#999"
-                value={category}
-                onChangeText={setCategory}
-                testID="category-input"
-              />
-            </View>
+          data={items}
+          keyExtractor={item => item.id}
+          renderItem={renderItem}
+          ListHeaderComponent={
+            <>
+              {/* Form Section */}
+              <View style={styles.formContainer} testID="form-container">
+                {conflicts.length > 0 && (
+                  <ConflictResolver
+                    key={conflicts[0].id}
+                    conflict={conflicts[0]}
+                    formatters={valueFormatters}
+                    onResolve={fields => resolveConflict(conflicts[0].id, fields)}
+                    onDiscard={() => dismissConflict(conflicts[0].id)}
+                  />
+                )}
 
-            <View style={styles.inputContainer}>
-              <Text style={styles.label}>Priority</Text>
-              <View style={styles.priorityContainer}>
-                {PRIORITIES.map((p) => (
-                  <TouchableOpacity
-                    key={p}
-                    style={[
-                      styles.priorityButton,
-                      priority === p && [
-                        styles.priorityButtonActive,
-                        { backgroundColor: getPriorityBgColor(p) },
-                      ],
-                    ]}
-                    onPress={() => setPriority(p)}
-                    testID={`priority-button-${p.toLowerCase()}`}
-                  >
-                    <View
-                      style={[
-                        styles.priorityDot,
-                        { backgroundColor: getPriorityColor(p) },
-                      ]}
-                    />
-                    <Text
-                      style={[
-                        styles.priorityButtonText,
-                        priority === p && { color: getPriorityColor(p) },
-                      ]}
-                    >
-                      {p}
+                {!canEdit && (
+                  <View style={styles.readOnlyNotice} testID="read-only-notice">
+                    <Text style={styles.readOnlyNoticeText}>
+                      You can view this list. Ask its owner to make you an
+                      editor to change tasks.
                     </Text>
-                  </TouchableOpacity>
-                ))}
-              </View>
-            </View>
+                  </View>
+                )}
 
-            <View style={styles.buttonRow}>
-              {editingItem && (
-                <TouchableOpacity
-                  style={[styles.button, styles.cancelButton]}
-                  onPress={handleCancel}
-                  testID="cancel-button"
-                >
-                  <Text style={styles.cancelButtonText}>Cancel</Text>
-                </TouchableOpacity>
-              )}
-              <TouchableOpacity
-                style={[
-                  styles.button,
-                  styles.submitButton,
-                  isSubmitting && styles.submitButtonDisabled,
-                ]}
-                onPress={handleSubmit}
-                disabled={isSubmitting}
-                testID="submit-button"
-              >
-                {isSubmitting ? (
-                  <ActivityIndicator color="#fff" />
-                ) : (
-                  <Text style={styles.submitButtonText}>
-                    {editingItem ? 'Update' : 'Create'}
-                  </Text>
+                {canEdit && (
+                  <>
+                    <View style={styles.inputContainer}>
+                      <Text style={styles.label}>Title</Text>
+                      <TextInput
+                        style={styles.input}
+                        placeholder="Enter item title"
+                        placeholderTextColor="#999"
+                        value={title}
+                        onChangeText={setTitle}
+                        testID="title-input"
+                      />
+                    </View>
+
+                    <View style={styles.inputContainer}>
+                      <Text style={styles.label}>Category</Text>
+                      <CategoryPicker
+                        categories={categories}
+                        selectedId={categoryId}
+                        onSelect={setCategoryId}
+                        onCreate={createCategory}
+                        onUpdate={updateCategory}
+                        onMerge={handleMergeCategories}
+                        onDelete={deleteCategory}
+                      />
+                    </View>
+
+                    <View style={styles.inputContainer}>
+                      <Text style={styles.label}>Priority</Text>
+                      <View style={styles.priorityContainer}>
+                        {PRIORITIES.map((p) => (
+                          <TouchableOpacity
+                            key={p}
+                            style={[
+                              styles.priorityButton,
+                              priority === p && [
+                                styles.priorityButtonActive,
+                                { backgroundColor: getPriorityBgColor(p) },
+                              ],
+                            ]}
+                            onPress={() => setPriority(p)}
+                            testID={`priority-button-${p.toLowerCase()}`}
+                          >
+                            <View
+                              style={[
+                                styles.priorityDot,
+                                { backgroundColor: getPriorityColor(p) },
+                              ]}
+                            />
+                            <Text
+                              style={[
+                                styles.priorityButtonText,
+                                priority === p && { color: getPriorityColor(p) },
+                              ]}
+                            >
+                              {p}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                    </View>
+
+                    <View style={styles.inputContainer}>
+                      <Text style={styles.label}>Due</Text>
+                      <DueDatePicker value={dueAt} onChange={setDueAt} />
+                    </View>
+
+                    {formListId && (
+                      <View style={styles.inputContainer}>
+                        <Text style={styles.label}>Assignee</Text>
+                        <AssigneePicker
+                          people={assigneesFor(formListId)}
+                          selectedId={assigneeId}
+                          onSelect={setAssigneeId}
+                        />
+                      </View>
+                    )}
+
+                    {dueAt && (
+                      <View style={styles.inputContainer}>
+                        <Text style={styles.label}>Remind me</Text>
+                        <View style={styles.reminderContainer}>
+                          {REMINDER_OPTIONS.map(option => (
+                            <TouchableOpacity
+                              key={option.minutes}
+                              style={[
+                                styles.reminderChip,
+                                reminderOffsets.includes(option.minutes) &&
+                                  styles.reminderChipActive,
+                              ]}
+                              onPress={() => toggleReminder(option.minutes)}
+                              testID={`reminder-option-${option.minutes}`}
+                            >
+                              <Text
+                                style={[
+                                  styles.reminderChipText,
+                                  reminderOffsets.includes(option.minutes) &&
+                                    styles.reminderChipTextActive,
+                                ]}
+                              >
+                                {option.label}
+                              </Text>
+                            </TouchableOpacity>
+                          ))}
+                        </View>
+                      </View>
+                    )}
+
+                    <View style={styles.buttonRow}>
+                      {editingItem && (
+                        <TouchableOpacity
+                          style={[styles.button, styles.cancelButton]}
+                          onPress={handleCancel}
+                          testID="cancel-button"
+                        >
+                          <Text style={styles.cancelButtonText}>Cancel</Text>
+                        </TouchableOpacity>
+                      )}
+                      <TouchableOpacity
+                        style={[
+                          styles.button,
+                          styles.submitButton,
+                          isSubmitting && styles.submitButtonDisabled,
+                        ]}
+                        onPress={handleSubmit}
+                        disabled={isSubmitting}
+                        testID="submit-button"
+                      >
+                        {isSubmitting ? (
+                          <ActivityIndicator color="#fff" />
+                        ) : (
+                          <Text style={styles.submitButtonText}>
+                            {editingItem ? 'Update' : 'Create'}
+                          </Text>
+                        )}
+                      </TouchableOpacity>
+                    </View>
+                  </>
                 )}
-              </TouchableOpacity>
-            </View>
 
-            {error && (
-              <View style={styles.errorContainer} testID="error-message">
-                <Text style={styles.errorText}>{error}</Text>
+                {(error || subtaskError || attachmentError) && (
+                  <View style={styles.errorContainer} testID="error-message">
+                    <Text style={styles.errorText}>
+                      {error || subtaskError || attachmentError}
+                    </Text>
+                  </View>
+                )}
               </View>
-            )}
-          </View>
 
-          {/* Items List Section */}
-          <View style={styles.listContainer} testID="items-list-container">
-            <View style={styles.sectionHeader}>
-              <Text style={styles.sectionTitle}>
-                Items ({items.length})
-              </Text>
-              <View style={styles.filterButtons}>
-                <TouchableOpacity
-                  style={[styles.filterButton, styles.filterButtonSecondary]}
-                  onPress={fetchItems}
-                  testID="filter-all-button"
-                >
-                  <Text style={styles.filterButtonText}>All</Text>
-                </TouchableOpacity>
-                <TouchableOpacity
-                  style={[styles.filterButton, styles.filterButtonPrimary]}
-                  onPress={fetchHighPriorityTasks}
-                  testID="filter-high-priority-button"
-                >
-                  <Text style={[styles.filterButtonText, styles.filterButtonTextPrimary]}>High Priority</Text>
-                </TouchableOpacity>
-              </View>
-            </View>
+              {/* Items List Section */}
+              <View style={styles.listContainer} testID="items-list-container">
+                <View style={styles.sectionHeader}>
+                  <Text style={styles.sectionTitle}>
+                    Items ({items.length}
+                    {hasMore ? '+' : ''})
+                  </Text>
+                </View>
 
-            {loading && items.length === 0 ? (
+                <FilterBar
+                  query={query}
+                  categories={categories}
+                  onChange={setQuery}
+                />
+              </View>
+            </>
+          }
+          ListEmptyComponent={
+            loading ? (
               <View style={styles.loadingContainer} testID="loading-indicator">
                 <ActivityIndicator size="large" color="#6366f1" />
                 <Text style={styles.loadingText}>Loading items...</Text>
               </View>
-            ) : items.length === 0 ? (
+            ) : (
               <View style={styles.emptyContainer} testID="empty-state">
-                <Text style={styles.emptyText}>No items yet</Text>
+                <Text style={styles.emptyText}>
+                  {hasFilters(query) ? 'No matching items' : 'No items yet'}
+                </Text>
                 <Text style={styles.emptySubtext}>
-                  Create your first item above!
+                  {hasFilters(query)
+                    ? 'Try changing or resetting your filters'
+                    : 'Create your first item above!'}
                 </Text>
               </View>
-            ) : (
-              items.map((item) => (
-                <View key={item.id} style={styles.itemCard} testID={`item-card-${item.id}`}>
-                  <View style={styles.itemHeader}>
-                    <View style={styles.itemContent}>
-                      <Text style={styles.itemTitle} testID={`item-title-${item.id}`}>
-                        {item.title}
-                      </Text>
-                      {item.created_at && (
-                        <Text style={styles.itemDate} testID={`item-date-${item.id}`}>
-                          {formatDate(item.created_at)}
-                        </Text>
-                      )}
-                    </View>
-                  </View>
-                  <View style={styles.itemMeta}>
-                    <View style={styles.categoryBadge} testID={`item-category-${item.id}`}>
-                      <Text style={styles.categoryText}>{item.category}</Text>
-                    </View>
-                    <View
-                      style={[
-                        styles.priorityBadge,
-                        {
-                          backgroundColor: getPriorityBgColor(item.priority),
-                        },
-                      ]}
-                      testID={`item-priority-${item.id}`}
-                    >
-                      <View
-                        style={[
-                          styles.priorityDotSmall,
-                          { backgroundColor: getPriorityColor(item.priority) },
-                        ]}
-                      />
-                      <Text
-                        style={[
-                          styles.priorityText,
-                          { color: getPriorityColor(item.priority) },
-                        ]}
-                      >
-                        {item.priority}
-                      </Text>
-                    </View>
-                  </View>
-                  <View style={styles.itemActions}>
-                    <TouchableOpacity
-                      style={[styles.actionButton, styles.editButton]}
-                      onPress={() => handleEdit(item)}
-                      testID={`edit-button-${item.id}`}
-                    >
-                      <Text style={styles.editButtonText}>Edit</Text>
-                    </TouchableOpacity>
-                    <TouchableOpacity
-                      style={[styles.actionButton, styles.deleteButton]}
-                      onPress={() => handleDelete(item)}
-                      testID={`delete-button-${item.id}`}
-                    >
-                      <Text style={styles.deleteButtonText}>Delete</Text>
-                    </TouchableOpacity>
-                  </View>
-                </View>
-              ))
-            )}
+            )
+          }
+          ListFooterComponent={
+            loadingMore ? (
+              <ActivityIndicator
+                style={styles.loadingMore}
+                color="#6366f1"
+                testID="loading-more-indicator"
+              />
+            ) : null
+          }
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={handleRefresh}
+              tintColor="#6366f1"
+            />
+          }
+          keyboardShouldPersistTaps="handled"
+          testID="items-scroll-view"
+        />
+
+        {recentlyDeleted.length > 0 && (
+          <View style={styles.undoBar} testID="undo-bar">
+            <Text style={styles.undoText} numberOfLines={1}>
+              Moved "{recentlyDeleted[0].title}" to the Trash
+            </Text>
+            <TouchableOpacity
+              onPress={() => undoDelete(recentlyDeleted[0].id)}
+              testID="undo-delete-button"
+            >
+              <Text style={styles.undoButtonText}>Undo</Text>
+            </TouchableOpacity>
           </View>
-        </ScrollView>
+        )}
       </KeyboardAvoidingView>
     </SafeAreaView>
   );
 };
 
+const App = () => (
+  <ConfigGate>
+    <AuthProvider>
+      <TaskApp />
+    </AuthProvider>
+  </ConfigGate>
+);
+
 export default App;
 
 const styles = StyleSheet.create({
@@ -467,6 +1139,9 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#f5f5f7',
   },
+  lockContainer: {
+    flex: 1,
+  },
   keyboardView: {
     flex: 1,
   },
@@ -501,11 +1176,20 @@ const styles = StyleSheet.create({
     color: '#e0e7ff',
     fontWeight: '500',
   },
-  userEmail: {
+  userRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  userName: {
     fontSize: 14,
     color: '#c7d2fe',
-    fontWeight: '400',
-    marginTop: 4,
+    fontWeight: '500',
+  },
+  headerButtons: {
+    flexDirection: 'row',
+    gap: 8,
   },
   logoutButton: {
     paddingHorizontal: 16,
@@ -520,6 +1204,30 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  readOnlyNotice: {
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#eef2ff',
+  },
+  readOnlyNoticeText: {
+    fontSize: 14,
+    color: '#4338ca',
+  },
+  offlineBanner: {
+    marginHorizontal: 20,
+    marginTop: 16,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#fef3c7',
+    borderWidth: 1,
+    borderColor: '#fde68a',
+  },
+  offlineBannerText: {
+    color: '#92400e',
+    fontSize: 14,
+    fontWeight: '500',
+    textAlign: 'center',
+  },
   scrollView: {
     flex: 1,
   },
@@ -585,6 +1293,31 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#6b7280',
   },
+  reminderContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  reminderChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f9fafb',
+  },
+  reminderChipActive: {
+    borderColor: '#c7d2fe',
+    backgroundColor: '#eef2ff',
+  },
+  reminderChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  reminderChipTextActive: {
+    color: '#4f46e5',
+  },
   buttonRow: {
     flexDirection: 'row',
     gap: 12,
@@ -651,32 +1384,6 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#111827',
   },
-  filterButtons: {
-    flexDirection: 'row',
-    gap: 8,
-  },
-  filterButton: {
-    paddingHorizontal: 16,
-    paddingVertical: 8,
-    borderRadius: 8,
-    borderWidth: 1,
-  },
-  filterButtonPrimary: {
-    backgroundColor: '#fee2e2',
-    borderColor: '#fecaca',
-  },
-  filterButtonSecondary: {
-    backgroundColor: '#f3f4f6',
-    borderColor: '#e5e7eb',
-  },
-  filterButtonText: {
-    fontSize: 13,
-    fontWeight: '600',
-    color: '#6b7280',
-  },
-  filterButtonTextPrimary: {
-    color: '#dc2626',
-  },
   loadingContainer: {
     alignItems: 'center',
     justifyContent: 'center',
@@ -687,6 +1394,9 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#6b7280',
   },
+  loadingMore: {
+    paddingVertical: 20,
+  },
   emptyContainer: {
     alignItems: 'center',
     justifyContent: 'center',
@@ -719,8 +1429,30 @@ const styles = StyleSheet.create({
     elevation: 4,
   },
   itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
     marginBottom: 12,
   },
+  doneToggle: {
+    width: 28,
+    height: 28,
+    marginTop: 1,
+    borderRadius: 14,
+    borderWidth: 2,
+    borderColor: '#d1d5db',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  doneToggleChecked: {
+    borderColor: '#10b981',
+    backgroundColor: '#10b981',
+  },
+  doneToggleMark: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '700',
+  },
   itemContent: {
     flex: 1,
   },
@@ -730,6 +1462,10 @@ const styles = StyleSheet.create({
     color: '#111827',
     marginBottom: 4,
   },
+  itemTitleDone: {
+    color: '#9ca3af',
+    textDecorationLine: 'line-through',
+  },
   itemDate: {
     fontSize: 12,
     color: '#9ca3af',
@@ -737,22 +1473,10 @@ const styles = StyleSheet.create({
   },
   itemMeta: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 12,
     marginBottom: 16,
   },
-  categoryBadge: {
-    paddingHorizontal: 12,
-    paddingVertical: 6,
-    borderRadius: 8,
-    backgroundColor: '#f0f9ff',
-    borderWidth: 1,
-    borderColor: '#bae6fd',
-  },
-  categoryText: {
-    fontSize: 13,
-    fontWeight: '600',
-    color: '#0369a1',
-  },
   priorityBadge: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -770,6 +1494,144 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: '600',
   },
+  statusBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#f9fafb',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  statusBadgeActive: {
+    backgroundColor: '#ecfeff',
+    borderColor: '#a5f3fc',
+  },
+  statusText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  statusTextActive: {
+    color: '#0e7490',
+  },
+  dueBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#f5f3ff',
+    borderWidth: 1,
+    borderColor: '#ddd6fe',
+  },
+  dueBadgeOverdue: {
+    backgroundColor: '#fef2f2',
+    borderColor: '#fecaca',
+  },
+  dueBadgeToday: {
+    backgroundColor: '#fffbeb',
+    borderColor: '#fde68a',
+  },
+  dueText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6d28d9',
+  },
+  dueTextOverdue: {
+    color: '#dc2626',
+  },
+  dueTextToday: {
+    color: '#b45309',
+  },
+  progressBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#eef2ff',
+    borderWidth: 1,
+    borderColor: '#c7d2fe',
+  },
+  progressText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4f46e5',
+  },
+  pendingBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderStyle: 'dashed',
+  },
+  pendingText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  thumbnailRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  thumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    backgroundColor: '#e5e7eb',
+  },
+  itemError: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    padding: 10,
+    marginBottom: 16,
+    borderRadius: 8,
+    backgroundColor: '#fee2e2',
+    borderWidth: 1,
+    borderColor: '#fecaca',
+  },
+  itemErrorText: {
+    flex: 1,
+    color: '#dc2626',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  itemErrorDismiss: {
+    color: '#dc2626',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  undoBar: {
+    position: 'absolute',
+    left: 20,
+    right: 20,
+    bottom: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 16,
+    paddingVertical: 14,
+    paddingHorizontal: 18,
+    borderRadius: 12,
+    backgroundColor: '#111827',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  undoText: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  undoButtonText: {
+    color: '#a5b4fc',
+    fontSize: 14,
+    fontWeight: '700',
+  },
   itemActions: {
     flexDirection: 'row',
     gap: 12,
@@ -784,6 +1646,16 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  checklistButton: {
+    backgroundColor: '#eef2ff',
+    borderWidth: 1,
+    borderColor: '#c7d2fe',
+  },
+  checklistButtonText: {
+    color: '#4f46e5',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   editButton: {
     backgroundColor: '#f0f9ff',
     borderWidth: 1,
@@ -0,0 +1,282 @@
+/**
+ * @format
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import aesjs from 'aes-js';
+import {
+  deleteAccount,
+  exportAccountData,
+  toJsonDataUrl,
+} from '../lib/account';
+
+const USER = {
+  id: 'user-1',
+  email: 'ada@example.com',
+  created_at: '2024-01-01T00:00:00Z',
+};
+
+type Rows = Record<string, Record<string, unknown>[]>;
+
+// Just enough of the Supabase client for lib/account.ts, with every call
+// recorded so tests can check what reached the server
+const createStubClient = ({
+  rows = {},
+  factors = [],
+  avatars = [],
+  signInError = null,
+  deleteError = null,
+}: {
+  rows?: Rows;
+  factors?: { id: string }[];
+  avatars?: string[];
+  signInError?: { message: string } | null;
+  deleteError?: { message: string } | null;
+} = {}) => {
+  const query = (table: string) => {
+    const filters: ((row: Record<string, unknown>) => boolean)[] = [];
+    let range = [0, Infinity];
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push(row => row[column] === value);
+        return builder;
+      },
+      neq: (column: string, value: unknown) => {
+        filters.push(row => row[column] !== value);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push(row => values.includes(row[column]));
+        return builder;
+      },
+      order: () => builder,
+      range: (from: number, to: number) => {
+        range = [from, to];
+        return builder;
+      },
+      then: (resolve: (result: unknown) => void) => {
+        const data = (rows[table] || [])
+          .filter(row => filters.every(filter => filter(row)))
+          .slice(range[0], range[1] + 1);
+        resolve({ data, error: null });
+      },
+    };
+    return builder;
+  };
+
+  const avatarBucket = {
+    list: jest.fn(async () => ({
+      data: avatars.map(name => ({ name })),
+      error: null,
+    })),
+    remove: jest.fn(async () => ({ data: [], error: null })),
+  };
+  const attachmentBucket = {
+    remove: jest.fn(async () => ({ data: [], error: null })),
+  };
+
+  const client = {
+    from: jest.fn(query),
+    rpc: jest.fn(async () => ({ data: null, error: deleteError })),
+    storage: {
+      from: jest.fn((bucket: string) =>
+        bucket === 'attachments' ? attachmentBucket : avatarBucket,
+      ),
+    },
+    auth: {
+      getUser: jest.fn(async () => ({ data: { user: USER }, error: null })),
+      signOut: jest.fn(async () => ({ error: null })),
+      signInWithPassword: jest.fn(async () =>
+        signInError
+          ? { data: { user: null, session: null }, error: signInError }
+          : { data: { user: USER, session: {} }, error: null },
+      ),
+      mfa: {
+        listFactors: jest.fn(async () => ({
+          data: { all: factors, totp: factors },
+          error: null,
+        })),
+        challengeAndVerify: jest.fn(async () => ({ data: {}, error: null })),
+      },
+    },
+  };
+
+  return {
+    client: client as unknown as SupabaseClient,
+    stub: client,
+    avatarBucket,
+    attachmentBucket,
+  };
+};
+
+describe('exportAccountData', () => {
+  test('bundles the profile, categories and tasks with their subtasks', async () => {
+    const { client } = createStubClient({
+      rows: {
+        profiles: [{ id: 'user-1', display_name: 'Ada' }],
+        categories: [{ id: 'c1', user_id: 'user-1', name: 'Work' }],
+        tasks: [
+          { id: 't1', user_id: 'user-1', title: 'Write report' },
+          { id: 't2', user_id: 'user-2', title: 'Someone else' },
+        ],
+        subtasks: [
+          { id: 's1', user_id: 'user-1', task_id: 't1', title: 'Outline' },
+        ],
+      },
+    });
+
+    const data = await exportAccountData(client);
+
+    expect(data.account).toEqual(USER);
+    expect(data.profile).toEqual({ id: 'user-1', display_name: 'Ada' });
+    expect(data.categories).toHaveLength(1);
+    expect(data.tasks).toEqual([
+      {
+        id: 't1',
+        user_id: 'user-1',
+        title: 'Write report',
+        subtasks: [
+          { id: 's1', user_id: 'user-1', task_id: 't1', title: 'Outline' },
+        ],
+      },
+    ]);
+  });
+
+  test('pages through more tasks than one request returns', async () => {
+    const tasks = Array.from({ length: 1200 }, (_, i) => ({
+      id: `t${i}`,
+      user_id: 'user-1',
+    }));
+    const { client } = createStubClient({ rows: { tasks } });
+
+    const data = await exportAccountData(client);
+
+    expect(data.tasks).toHaveLength(1200);
+    expect(data.profile).toBeNull();
+  });
+
+  test('encodes the export as a JSON data URL', () => {
+    const url = toJsonDataUrl({ title: 'Café ☕' });
+    const [prefix, encoded] = url.split(',');
+
+    expect(prefix).toBe('data:application/json;base64');
+    const bytes = Uint8Array.from(atob(encoded), char => char.charCodeAt(0));
+    expect(JSON.parse(aesjs.utils.utf8.fromBytes(bytes))).toEqual({
+      title: 'Café ☕',
+    });
+  });
+});
+
+describe('deleteAccount', () => {
+  const credentials = { email: USER.email, password: 'secret' };
+
+  test('signs in again, deletes the account, then removes the avatar', async () => {
+    const { client, stub, avatarBucket } = createStubClient({
+      avatars: ['avatar'],
+    });
+
+    await deleteAccount(client, credentials);
+
+    expect(stub.auth.signInWithPassword).toHaveBeenCalledWith(credentials);
+    expect(avatarBucket.list).toHaveBeenCalledWith('user-1');
+    expect(stub.rpc).toHaveBeenCalledWith('delete_account');
+    expect(avatarBucket.remove).toHaveBeenCalledWith(['user-1/avatar']);
+    expect(stub.auth.signOut).toHaveBeenCalledWith({ scope: 'local' });
+  });
+
+  test("removes the user's uploads after the account is gone", async () => {
+    const { client, stub, attachmentBucket } = createStubClient({
+      rows: {
+        task_attachments: [
+          { id: 'a1', user_id: 'user-1', task_id: 't9', path: 'user-1/t9/a' },
+          { id: 'a2', user_id: 'user-2', task_id: 't1', path: 'user-2/t1/b' },
+          { id: 'a3', user_id: 'user-2', task_id: 't2', path: 'user-2/t2/c' },
+        ],
+      },
+    });
+
+    await deleteAccount(client, credentials);
+
+    expect(stub.rpc).toHaveBeenCalledWith('delete_account');
+    expect(attachmentBucket.remove).toHaveBeenCalledWith(['user-1/t9/a']);
+    expect(stub.rpc.mock.invocationCallOrder[0]).toBeLessThan(
+      attachmentBucket.remove.mock.invocationCallOrder[0],
+    );
+  });
+
+  test('keeps every file when the database refuses', async () => {
+    const { client, stub, avatarBucket, attachmentBucket } = createStubClient({
+      avatars: ['avatar'],
+      rows: {
+        task_attachments: [
+          { id: 'a1', user_id: 'user-1', task_id: 't1', path: 'user-1/t1/a' },
+        ],
+      },
+      deleteError: { message: 'Please sign in again to delete your account' },
+    });
+
+    await expect(deleteAccount(client, credentials)).rejects.toEqual({
+      message: 'Please sign in again to delete your account',
+    });
+    expect(avatarBucket.remove).not.toHaveBeenCalled();
+    expect(attachmentBucket.remove).not.toHaveBeenCalled();
+    expect(stub.auth.signOut).toHaveBeenCalledWith({ scope: 'local' });
+  });
+
+  test('removes nothing while the user owns lists with other members', async () => {
+    const { client, stub, avatarBucket, attachmentBucket } = createStubClient({
+      avatars: ['avatar'],
+      rows: {
+        lists: [
+          { id: 'l1', owner_id: 'user-1', name: 'Family' },
+          { id: 'l2', owner_id: 'user-1', name: 'Just me' },
+          { id: 'l3', owner_id: 'user-2', name: 'Theirs' },
+        ],
+        list_members: [
+          { list_id: 'l1', user_id: 'user-1' },
+          { list_id: 'l1', user_id: 'user-2' },
+          { list_id: 'l2', user_id: 'user-1' },
+          { list_id: 'l3', user_id: 'user-2' },
+          { list_id: 'l3', user_id: 'user-1' },
+        ],
+      },
+    });
+
+    await expect(deleteAccount(client, credentials)).rejects.toThrow(
+      'Delete these shared lists or remove their members first: Family',
+    );
+    expect(avatarBucket.remove).not.toHaveBeenCalled();
+    expect(attachmentBucket.remove).not.toHaveBeenCalled();
+    expect(stub.rpc).not.toHaveBeenCalled();
+  });
+
+  test('deletes nothing when the password is wrong', async () => {
+    const { client, stub, avatarBucket } = createStubClient({
+      signInError: { message: 'Invalid login credentials' },
+    });
+
+    await expect(deleteAccount(client, credentials)).rejects.toEqual({
+      message: 'Invalid login credentials',
+    });
+    expect(avatarBucket.remove).not.toHaveBeenCalled();
+    expect(stub.rpc).not.toHaveBeenCalled();
+  });
+
+  test('requires the authenticator code when two-factor is on', async () => {
+    const { client, stub } = createStubClient({ factors: [{ id: 'f1' }] });
+
+    await expect(deleteAccount(client, credentials)).rejects.toThrow(
+      'Enter the code from your authenticator app',
+    );
+    expect(stub.rpc).not.toHaveBeenCalled();
+
+    await deleteAccount(client, { ...credentials, totpCode: '123456' });
+
+    expect(stub.auth.mfa.challengeAndVerify).toHaveBeenCalledWith({
+      factorId: 'f1',
+      code: '123456',
+    });
+    expect(stub.rpc).toHaveBeenCalledWith('delete_account');
+  });
+});
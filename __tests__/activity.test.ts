@@ -0,0 +1,66 @@
+/**
+ * @format
+ */
+
+import {
+  ActivityEntry,
+  describeAction,
+  describeChanges,
+} from '../lib/activity';
+
+const entry = (fields: Partial<ActivityEntry>): ActivityEntry => ({
+  id: 'a1',
+  task_id: 't1',
+  actor_id: 'user-1',
+  actor_name: 'Ada',
+  action: 'updated',
+  changes: null,
+  created_at: '2024-01-01T00:00:00Z',
+  ...fields,
+});
+
+describe('describeAction', () => {
+  test('names who made the change', () => {
+    expect(describeAction(entry({ action: 'completed' }))).toBe(
+      'Ada completed the task',
+    );
+    expect(describeAction(entry({ actor_name: null }))).toBe(
+      'Someone edited the task',
+    );
+  });
+});
+
+describe('describeChanges', () => {
+  test('lists old and new values in form order', () => {
+    const lines = describeChanges(
+      entry({
+        changes: {
+          status: { old: 'open', new: 'in_progress' },
+          title: { old: 'Draft', new: 'Final' },
+          reminder_offsets: { old: [], new: [15, 60] },
+        },
+      }),
+    );
+
+    expect(lines).toEqual([
+      'Title: Draft → Final',
+      'Status: Open → In progress',
+      'Reminders: None → 15m, 60m',
+    ]);
+  });
+
+  test('uses formatters for ids and skips bookkeeping columns', () => {
+    const lines = describeChanges(
+      entry({
+        action: 'completed',
+        changes: {
+          category: { old: null, new: 'c1' },
+          completed_at: { old: null, new: '2024-01-02T00:00:00Z' },
+        },
+      }),
+      { category: id => (id === 'c1' ? 'Work' : String(id)) },
+    );
+
+    expect(lines).toEqual(['Category: None → Work']);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * @format
+ */
+
+import {
+  AUTH_REDIRECT_URL,
+  RESET_PASSWORD_URL,
+  createSessionFromUrl,
+  isAuthLink,
+} from '../lib/authLinks';
+import { supabase } from '../lib/supabase';
+
+jest.mock('../lib/supabase', () => ({
+  supabase: {
+    auth: {
+      exchangeCodeForSession: jest.fn(async () => ({ error: null })),
+      verifyOtp: jest.fn(async () => ({ error: null })),
+      setSession: jest.fn(async () => ({ error: null })),
+    },
+  },
+}));
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+test("recognises only the app's auth links", () => {
+  expect(isAuthLink(`${AUTH_REDIRECT_URL}?code=abc`)).toBe(true);
+  expect(isAuthLink(`${RESET_PASSWORD_URL}#access_token=a`)).toBe(true);
+  expect(isAuthLink('reactnativesupabase://tasks/t1')).toBe(false);
+});
+
+describe('createSessionFromUrl', () => {
+  test('exchanges a PKCE code', async () => {
+    expect(await createSessionFromUrl(`${AUTH_REDIRECT_URL}?code=abc`)).toBe(
+      'other',
+    );
+    expect(supabase.auth.exchangeCodeForSession).toHaveBeenCalledWith('abc');
+  });
+
+  test('verifies a token hash from a custom email template', async () => {
+    expect(
+      await createSessionFromUrl(
+        `${AUTH_REDIRECT_URL}?token_hash=h%2B1&type=signup`,
+      ),
+    ).toBe('signup');
+    expect(supabase.auth.verifyOtp).toHaveBeenCalledWith({
+      token_hash: 'h+1',
+      type: 'signup',
+    });
+  });
+
+  test('sets the session from fragment tokens on the reset path', async () => {
+    expect(
+      await createSessionFromUrl(
+        `${RESET_PASSWORD_URL}#access_token=a&refresh_token=r&type=magiclink`,
+      ),
+    ).toBe('recovery');
+    expect(supabase.auth.setSession).toHaveBeenCalledWith({
+      access_token: 'a',
+      refresh_token: 'r',
+    });
+  });
+
+  test('throws the error the link carries', async () => {
+    await expect(
+      createSessionFromUrl(
+        `${AUTH_REDIRECT_URL}#error=access_denied&error_description=Email+link+is+invalid+or+has+expired`,
+      ),
+    ).rejects.toThrow('Email link is invalid or has expired');
+  });
+
+  test('throws for a link without tokens', async () => {
+    await expect(createSessionFromUrl(AUTH_REDIRECT_URL)).rejects.toThrow(
+      'This link is invalid or has already been used',
+    );
+    expect(supabase.auth.setSession).not.toHaveBeenCalled();
+  });
+});
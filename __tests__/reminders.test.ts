@@ -0,0 +1,113 @@
+/**
+ * @format
+ */
+
+import notifee from '@notifee/react-native';
+import type { Item } from '../hooks/useItems';
+import { pruneReminders, syncReminders } from '../lib/reminders';
+
+type Call = [string, unknown[]];
+
+// Tasks the server still lists, and the filters each request used
+let mockLiveIds: string[] = [];
+const mockCalls: Call[] = [];
+
+jest.mock('../lib/supabase', () => {
+  const builder: Record<string, unknown> = new Proxy(
+    {},
+    {
+      get: (_target, method: string) =>
+        method === 'then'
+          ? (resolve: (result: unknown) => void) =>
+              resolve({
+                data: mockLiveIds.map(id => ({ id })),
+                error: null,
+              })
+          : (...args: unknown[]) => {
+              mockCalls.push([method, args]);
+              return builder;
+            },
+    },
+  );
+  return { supabase: { from: () => builder } };
+});
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const item = (fields: Partial<Item> = {}): Item => ({
+  id: 't1',
+  title: 'Buy milk',
+  category: 'c1',
+  priority: 'Medium',
+  status: 'open',
+  due_at: new Date(Date.now() + 2 * HOUR_MS).toISOString(),
+  reminder_offsets: [0, 60, 1440],
+  ...fields,
+});
+
+const scheduledIds = () =>
+  jest
+    .mocked(notifee.createTriggerNotification)
+    .mock.calls.map(([notification]) => notification.id);
+
+const cancelledIds = () =>
+  jest
+    .mocked(notifee.cancelTriggerNotifications)
+    .mock.calls.flatMap(([ids]) => ids ?? []);
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockCalls.length = 0;
+  mockLiveIds = [];
+  jest.mocked(notifee.getTriggerNotificationIds).mockResolvedValue([]);
+});
+
+describe('syncReminders', () => {
+  test("replaces a task's reminders with those still ahead", async () => {
+    jest
+      .mocked(notifee.getTriggerNotificationIds)
+      .mockResolvedValue(['t1:15', 't2:0']);
+
+    await syncReminders([item()]);
+
+    expect(cancelledIds()).toEqual(['t1:15']);
+    // A day before is already in the past
+    expect(scheduledIds()).toEqual(['t1:0', 't1:60']);
+  });
+
+  test('schedules nothing for finished tasks', async () => {
+    await syncReminders([item({ status: 'done' })]);
+
+    expect(scheduledIds()).toEqual([]);
+  });
+});
+
+describe('pruneReminders', () => {
+  test('cancels reminders for tasks the server no longer lists', async () => {
+    jest
+      .mocked(notifee.getTriggerNotificationIds)
+      .mockResolvedValue(['t1:0', 't1:60', 't2:0', 't3:15']);
+    mockLiveIds = ['t2'];
+
+    await pruneReminders(['t3']);
+
+    expect(mockCalls).toEqual([
+      ['select', ['id']],
+      ['in', ['id', ['t1', 't2']]],
+      ['is', ['deleted_at', null]],
+      ['neq', ['status', 'done']],
+    ]);
+    expect(cancelledIds()).toEqual(['t1:0', 't1:60']);
+  });
+
+  test('leaves tasks that only exist on the device alone', async () => {
+    jest
+      .mocked(notifee.getTriggerNotificationIds)
+      .mockResolvedValue(['local-1:0']);
+
+    await pruneReminders();
+
+    expect(mockCalls).toEqual([]);
+    expect(cancelledIds()).toEqual([]);
+  });
+});
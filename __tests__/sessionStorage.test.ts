@@ -0,0 +1,87 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Keychain from 'react-native-keychain';
+import { secureStorage } from '../lib/sessionStorage';
+
+const SESSION_KEY = 'sb-project-auth-token';
+const SESSION = JSON.stringify({ refresh_token: 'refresh-secret' });
+
+beforeEach(async () => {
+  await secureStorage.clear();
+  await AsyncStorage.clear();
+});
+
+test('stores sessions encrypted and reads them back', async () => {
+  await secureStorage.setItem(SESSION_KEY, SESSION);
+
+  const entries = await AsyncStorage.multiGet(await AsyncStorage.getAllKeys());
+  const stored = entries.map(([, value]) => value).join();
+  expect(stored).not.toContain('refresh-secret');
+  expect(await secureStorage.getItem(SESSION_KEY)).toBe(SESSION);
+});
+
+test('drops a session that was changed on disk', async () => {
+  await secureStorage.setItem(SESSION_KEY, SESSION);
+  const [storedKey] = await AsyncStorage.getAllKeys();
+  const stored = (await AsyncStorage.getItem(storedKey))!;
+  // Change the first character of the ciphertext
+  const [iv, data, mac] = stored.split(':');
+  const flipped = (data[0] === '0' ? '1' : '0') + data.slice(1);
+  await AsyncStorage.setItem(storedKey, [iv, flipped, mac].join(':'));
+
+  const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+  expect(await secureStorage.getItem(SESSION_KEY)).toBeNull();
+  expect(await AsyncStorage.getItem(storedKey)).toBeNull();
+  error.mockRestore();
+});
+
+test('keeps the session when the Keychain cannot be read yet', async () => {
+  await secureStorage.setItem(SESSION_KEY, SESSION);
+  await jest.isolateModulesAsync(async () => {
+    const { secureStorage: afterRestart } = require('../lib/sessionStorage');
+    jest
+      .mocked(Keychain.getGenericPassword)
+      .mockRejectedValueOnce(new Error('User interaction is not allowed'));
+
+    await expect(afterRestart.getItem(SESSION_KEY)).rejects.toThrow(
+      'User interaction is not allowed',
+    );
+    expect(await afterRestart.getItem(SESSION_KEY)).toBe(SESSION);
+  });
+});
+
+test('drops sessions saved under a lost key before making a new one', async () => {
+  await secureStorage.setItem(SESSION_KEY, SESSION);
+  await secureStorage.setItem('other', SESSION);
+  await jest.isolateModulesAsync(async () => {
+    const { secureStorage: restored } = require('../lib/sessionStorage');
+    await Keychain.resetGenericPassword({ service: 'supabase-session-key' });
+
+    expect(await restored.getItem(SESSION_KEY)).toBeNull();
+    await restored.setItem(SESSION_KEY, SESSION);
+    expect(await AsyncStorage.getAllKeys()).toEqual([
+      `session:encrypted:${SESSION_KEY}`,
+    ]);
+    expect(await restored.getItem(SESSION_KEY)).toBe(SESSION);
+  });
+});
+
+test('migrates a plain AsyncStorage session on first read', async () => {
+  await AsyncStorage.setItem(SESSION_KEY, SESSION);
+
+  expect(await secureStorage.getItem(SESSION_KEY)).toBe(SESSION);
+  expect(await AsyncStorage.getItem(SESSION_KEY)).toBeNull();
+  expect(await secureStorage.getItem(SESSION_KEY)).toBe(SESSION);
+});
+
+test('clear removes sessions and the encryption key', async () => {
+  await secureStorage.setItem(SESSION_KEY, SESSION);
+  await secureStorage.clear();
+
+  expect(await secureStorage.getItem(SESSION_KEY)).toBeNull();
+  expect(await AsyncStorage.getAllKeys()).toEqual([]);
+  expect(Keychain.resetGenericPassword).toHaveBeenCalled();
+});
@@ -0,0 +1,208 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Item } from '../hooks/useItems';
+import {
+  DEFAULT_QUERY,
+  TaskQuery,
+  loadSavedQuery,
+  matchesQuery,
+  saveQuery,
+  selectTasks,
+  sortItems,
+} from '../lib/taskQuery';
+
+type Call = [string, unknown[]];
+
+// Records every builder call so tests can check the filters sent to PostgREST
+const mockCalls: Call[] = [];
+
+jest.mock('../lib/supabase', () => {
+  const builder: Record<string, unknown> = new Proxy(
+    {},
+    {
+      get:
+        (_target, method: string) =>
+        (...args: unknown[]) => {
+          mockCalls.push([method, args]);
+          return builder;
+        },
+    },
+  );
+  return { supabase: { from: () => builder } };
+});
+
+const item = (fields: Partial<Item> = {}): Item => ({
+  id: 't1',
+  title: 'Buy milk',
+  category: 'c1',
+  priority: 'Medium',
+  status: 'open',
+  created_at: '2024-01-10T09:00:00Z',
+  ...fields,
+});
+
+const query = (fields: Partial<TaskQuery> = {}): TaskQuery => ({
+  ...DEFAULT_QUERY,
+  ...fields,
+});
+
+const callsTo = (method: string) =>
+  mockCalls.filter(([name]) => name === method).map(([, args]) => args);
+
+beforeEach(() => {
+  mockCalls.length = 0;
+});
+
+describe('selectTasks', () => {
+  test('pages after the cursor with quoted values and nulls last', () => {
+    selectTasks(
+      'user-1',
+      null,
+      query(),
+      item({ id: 't"1', created_at: '2024-01-02T00:00:00Z' }),
+    );
+
+    expect(callsTo('or')).toEqual([
+      [
+        'created_at.lt."2024-01-02T00:00:00Z",' +
+          'and(created_at.eq."2024-01-02T00:00:00Z",id.lt."t\\"1"),' +
+          'created_at.is.null',
+      ],
+    ]);
+    expect(callsTo('order')).toEqual([
+      ['created_at', { ascending: false, nullsFirst: false }],
+      ['id', { ascending: false }],
+    ]);
+  });
+
+  test('pages within the trailing nulls when the cursor has no value', () => {
+    selectTasks(
+      'user-1',
+      'list-1',
+      query({ sortBy: 'due_at', ascending: true }),
+      item({ due_at: null }),
+    );
+
+    expect(callsTo('or')).toEqual([]);
+    expect(callsTo('is')).toContainEqual(['due_at', null]);
+    expect(callsTo('filter')).toEqual([['id', 'gt', 't1']]);
+  });
+
+  test('resolves a created-at preset on the day the query runs', () => {
+    jest.useFakeTimers().setSystemTime(new Date(2024, 0, 10, 15));
+    try {
+      selectTasks('user-1', null, query({ createdPreset: 'week' }));
+      jest.setSystemTime(new Date(2024, 0, 20, 15));
+      selectTasks('user-1', null, query({ createdPreset: 'week' }));
+    } finally {
+      jest.useRealTimers();
+    }
+
+    expect(callsTo('gte')).toEqual([
+      ['created_at', new Date(2024, 0, 3).toISOString()],
+      ['created_at', new Date(2024, 0, 13).toISOString()],
+    ]);
+    expect(callsTo('lte')).toEqual([]);
+  });
+});
+
+describe('matchesQuery', () => {
+  test('leaves out tasks in the Trash', () => {
+    expect(
+      matchesQuery(item({ deleted_at: '2024-01-11T00:00:00Z' }), query()),
+    ).toBe(false);
+  });
+
+  test('keeps finished tasks out of every view but completed', () => {
+    expect(matchesQuery(item(), query())).toBe(true);
+    expect(matchesQuery(item({ status: 'done' }), query())).toBe(false);
+    expect(
+      matchesQuery(item({ status: 'done' }), query({ view: 'completed' })),
+    ).toBe(true);
+    expect(matchesQuery(item(), query({ view: 'completed' }))).toBe(false);
+  });
+
+  test('only shows dated tasks in due soon', () => {
+    const soon = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    const later = new Date(Date.now() + 90 * 24 * 60 * 60 * 1000).toISOString();
+    const dueSoon = query({ view: 'due_soon' });
+
+    expect(matchesQuery(item({ due_at: soon }), dueSoon)).toBe(true);
+    expect(matchesQuery(item({ due_at: later }), dueSoon)).toBe(false);
+    expect(matchesQuery(item({ due_at: null }), dueSoon)).toBe(false);
+  });
+
+  test('filters by priority, category and every search word', () => {
+    expect(matchesQuery(item(), query({ priorities: ['High', 'Low'] }))).toBe(
+      false,
+    );
+    expect(matchesQuery(item(), query({ categoryId: 'c2' }))).toBe(false);
+    expect(matchesQuery(item(), query({ search: 'MILK buy' }))).toBe(true);
+    expect(matchesQuery(item(), query({ search: 'buy bread' }))).toBe(false);
+  });
+
+  test('includes both ends of the created range', () => {
+    const range = query({
+      createdFrom: '2024-01-10T09:00:00Z',
+      createdTo: '2024-01-10T09:00:00.000Z',
+    });
+
+    expect(matchesQuery(item(), range)).toBe(true);
+    expect(
+      matchesQuery(item({ created_at: '2024-01-10T09:00:01Z' }), range),
+    ).toBe(false);
+  });
+});
+
+describe('sortItems', () => {
+  const early = item({ id: 'early', due_at: '2024-01-01T00:00:00Z' });
+  const late = item({ id: 'late', due_at: '2024-02-01T00:00:00Z' });
+  const undated = item({ id: 'undated', due_at: null });
+
+  test('puts rows without a value last in both directions', () => {
+    const ids = (ascending: boolean) =>
+      sortItems(
+        [undated, late, early],
+        query({ sortBy: 'due_at', ascending }),
+      ).map(sorted => sorted.id);
+
+    expect(ids(true)).toEqual(['early', 'late', 'undated']);
+    expect(ids(false)).toEqual(['late', 'early', 'undated']);
+  });
+});
+
+describe('loadSavedQuery', () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  test('fills in fields missing from an older saved query', async () => {
+    await AsyncStorage.setItem(
+      'tasks:query',
+      JSON.stringify({ view: 'completed', priorities: ['High'] }),
+    );
+
+    expect(await loadSavedQuery()).toEqual({
+      ...DEFAULT_QUERY,
+      view: 'completed',
+      priorities: ['High'],
+    });
+  });
+
+  test('round-trips a saved query', async () => {
+    const saved = query({ createdPreset: 'month', ascending: true });
+    await saveQuery(saved);
+
+    expect(await loadSavedQuery()).toEqual(saved);
+  });
+
+  test('falls back to the default query', async () => {
+    expect(await loadSavedQuery()).toEqual(DEFAULT_QUERY);
+
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    await AsyncStorage.setItem('tasks:query', '{not json');
+    expect(await loadSavedQuery()).toEqual(DEFAULT_QUERY);
+    error.mockRestore();
+  });
+});
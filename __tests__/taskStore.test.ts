@@ -0,0 +1,199 @@
+/**
+ * @format
+ */
+
+import type { Item, ItemFields } from '../hooks/useItems';
+import {
+  PendingMutation,
+  applyMutations,
+  enqueueMutation,
+  isLocalId,
+  createLocalId,
+  mergeItems,
+  rebaseQueue,
+} from '../lib/taskStore';
+
+const FIELDS: ItemFields = {
+  title: 'Buy milk',
+  category: 'c1',
+  priority: 'Medium',
+};
+
+const item = (fields: Partial<Item> = {}): Item => ({
+  id: 't1',
+  title: 'Buy milk',
+  category: 'c1',
+  priority: 'Medium',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...fields,
+});
+
+const create = (id = 'local-1'): PendingMutation => ({
+  kind: 'create',
+  id,
+  fields: FIELDS,
+  createdAt: '2024-01-01T00:00:00Z',
+});
+
+describe('enqueueMutation', () => {
+  test('folds an update into a create that has not been sent', () => {
+    const queue = enqueueMutation([create()], {
+      kind: 'update',
+      id: 'local-1',
+      fields: { priority: 'High' },
+    });
+
+    expect(queue).toEqual([
+      { ...create(), fields: { ...FIELDS, priority: 'High' } },
+    ]);
+  });
+
+  test('drops an unsent create and its edits when it is deleted', () => {
+    const queue = enqueueMutation(
+      [
+        create(),
+        { kind: 'update', id: 'local-1', fields: { title: 'Oat milk' } },
+        { kind: 'update', id: 't2', fields: { title: 'Other' } },
+      ],
+      { kind: 'delete', id: 'local-1' },
+    );
+
+    expect(queue).toEqual([
+      { kind: 'update', id: 't2', fields: { title: 'Other' } },
+    ]);
+  });
+
+  test('never folds into the mutation being sent', () => {
+    const inFlight = create();
+    const update: PendingMutation = {
+      kind: 'update',
+      id: 'local-1',
+      fields: { priority: 'Low' },
+    };
+
+    expect(enqueueMutation([inFlight], update, inFlight)).toEqual([
+      inFlight,
+      update,
+    ]);
+
+    const sendingUpdate: PendingMutation = {
+      kind: 'update',
+      id: 't1',
+      fields: { title: 'A' },
+      base: item(),
+    };
+    const next: PendingMutation = {
+      kind: 'update',
+      id: 't1',
+      fields: { title: 'B' },
+      base: item({ updated_at: '2024-02-01T00:00:00Z' }),
+    };
+    expect(enqueueMutation([sendingUpdate], next, sendingUpdate)).toEqual([
+      sendingUpdate,
+      next,
+    ]);
+  });
+
+  test("keeps the first edit's base when merging updates", () => {
+    const first: PendingMutation = {
+      kind: 'update',
+      id: 't1',
+      fields: { title: 'A' },
+      base: item(),
+    };
+
+    const queue = enqueueMutation([first], {
+      kind: 'update',
+      id: 't1',
+      fields: { priority: 'High' },
+      base: item({ title: 'A', updated_at: '2024-02-01T00:00:00Z' }),
+    });
+
+    expect(queue).toEqual([
+      { ...first, fields: { title: 'A', priority: 'High' } },
+    ]);
+  });
+
+  test('queues a delete of a synced item behind its edits', () => {
+    const update: PendingMutation = {
+      kind: 'update',
+      id: 't1',
+      fields: { title: 'A' },
+    };
+
+    expect(enqueueMutation([update], { kind: 'delete', id: 't1' })).toEqual([
+      update,
+      { kind: 'delete', id: 't1' },
+    ]);
+  });
+});
+
+describe('rebaseQueue', () => {
+  test('moves a local id onto the server id and refreshes the base', () => {
+    const row = item({ id: 't9', updated_at: '2024-03-01T00:00:00Z' });
+    const queue = rebaseQueue(
+      [
+        {
+          kind: 'update',
+          id: 'local-1',
+          fields: { title: 'A' },
+          base: item({ id: 'local-1', updated_at: undefined }),
+        },
+        { kind: 'delete', id: 'local-1' },
+        { kind: 'update', id: 't2', fields: { title: 'B' } },
+      ],
+      'local-1',
+      row,
+    );
+
+    expect(queue).toEqual([
+      {
+        kind: 'update',
+        id: 't9',
+        fields: { title: 'A' },
+        base: item({ id: 't9', updated_at: '2024-03-01T00:00:00Z' }),
+      },
+      { kind: 'delete', id: 't9' },
+      { kind: 'update', id: 't2', fields: { title: 'B' } },
+    ]);
+  });
+});
+
+describe('applyMutations', () => {
+  test('shows creates, edits and deletes on top of the list', () => {
+    const items = [item(), item({ id: 't2', title: 'Walk dog' })];
+    const queue: PendingMutation[] = [
+      create(),
+      { kind: 'update', id: 't1', fields: { title: 'Oat milk' } },
+      { kind: 'delete', id: 't2' },
+    ];
+
+    expect(applyMutations(items, queue)).toEqual([
+      { id: 'local-1', ...FIELDS, created_at: '2024-01-01T00:00:00Z' },
+      item({ title: 'Oat milk' }),
+    ]);
+  });
+
+  test('can be applied twice without duplicating creates', () => {
+    const queue = [create()];
+    const once = applyMutations([], queue);
+
+    expect(applyMutations(once, queue)).toEqual(once);
+  });
+});
+
+describe('mergeItems', () => {
+  test('replaces rows by id and keeps the rest', () => {
+    const merged = mergeItems(
+      [item(), item({ id: 't2' })],
+      [item({ title: 'New' })],
+    );
+
+    expect(merged).toEqual([item({ title: 'New' }), item({ id: 't2' })]);
+  });
+});
+
+test('local ids are recognised', () => {
+  expect(isLocalId(createLocalId())).toBe(true);
+  expect(isLocalId('5f0c6d2e-0000-0000-0000-000000000000')).toBe(false);
+});
@@ -0,0 +1,33 @@
+/**
+ * @format
+ */
+
+import { daysUntilPurge } from '../lib/trash';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETENTION_DAYS = 30;
+
+describe('daysUntilPurge', () => {
+  const deletedAt = '2024-01-01T12:00:00Z';
+  const deletedMs = Date.parse(deletedAt);
+
+  test('counts down from the retention period', () => {
+    expect(daysUntilPurge(deletedAt, RETENTION_DAYS, deletedMs)).toBe(
+      RETENTION_DAYS,
+    );
+    // A part-day still counts as a day left
+    expect(
+      daysUntilPurge(deletedAt, RETENTION_DAYS, deletedMs + 1.5 * DAY_MS),
+    ).toBe(RETENTION_DAYS - 1);
+  });
+
+  test('never goes below zero once the purge is due', () => {
+    expect(
+      daysUntilPurge(
+        deletedAt,
+        RETENTION_DAYS,
+        deletedMs + (RETENTION_DAYS + 3) * DAY_MS,
+      ),
+    ).toBe(0);
+  });
+});
@@ -1,3 +1,5 @@
 module.exports = {
   presets: ['module:@react-native/babel-preset'],
+  // Supabase projects per build flavor come from .env, see lib/config.ts
+  plugins: ['module:react-native-dotenv'],
 };
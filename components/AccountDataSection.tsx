@@ -0,0 +1,281 @@
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import Share from 'react-native-share';
+import { createDetachedClient, supabase } from '../lib/supabase';
+import {
+  deleteAccount,
+  exportAccountData,
+  fetchOwnedSharedLists,
+  toJsonDataUrl,
+} from '../lib/account';
+import { TOTP_CODE_LENGTH } from '../lib/mfa';
+import { useAuth } from '../hooks/useAuth';
+
+interface AccountDataSectionProps {
+  email: string | null;
+  // Deleting then also asks for an authenticator code
+  isMfaEnabled: boolean;
+}
+
+// Export a copy of the account's data, or delete the account for good
+export const AccountDataSection: React.FC<AccountDataSectionProps> = ({
+  email,
+  isMfaEnabled,
+}) => {
+  const { user, signOut } = useAuth();
+  const [isExporting, setIsExporting] = useState(false);
+  const [isCheckingLists, setIsCheckingLists] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  // Owned lists with other members, which block the deletion
+  const [sharedLists, setSharedLists] = useState<string[]>([]);
+  const [password, setPassword] = useState('');
+  const [totpCode, setTotpCode] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const data = await exportAccountData(supabase);
+      await Share.open({
+        url: toJsonDataUrl(data),
+        type: 'application/json',
+        filename: `tasks-export-${data.exported_at.slice(0, 10)}`,
+        failOnCancel: false,
+      });
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to export your data');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleStartDelete = async () => {
+    if (!user) return;
+    setIsCheckingLists(true);
+    try {
+      setSharedLists(await fetchOwnedSharedLists(supabase, user.id));
+      setIsConfirmingDelete(true);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to check your lists');
+    } finally {
+      setIsCheckingLists(false);
+    }
+  };
+
+  const handleCancelDelete = () => {
+    setIsConfirmingDelete(false);
+    setPassword('');
+    setTotpCode('');
+  };
+
+  const handleDelete = async () => {
+    if (!email || !password) {
+      Alert.alert('Error', 'Please enter your password');
+      return;
+    }
+
+    setIsDeleting(true);
+    try {
+      await deleteAccount(createDetachedClient(), {
+        email,
+        password,
+        totpCode: isMfaEnabled ? totpCode.trim() : undefined,
+      });
+    } catch (error: any) {
+      setIsDeleting(false);
+      Alert.alert('Error', error.message || 'Failed to delete account');
+      return;
+    }
+
+    // The server has already ended every session; this clears this device
+    await signOut();
+    Alert.alert('Account Deleted', 'Your account and tasks have been deleted.');
+  };
+
+  return (
+    <View testID="account-data-section">
+      <TouchableOpacity
+        style={styles.button}
+        onPress={handleExport}
+        disabled={isExporting}
+        testID="export-data-button"
+      >
+        {isExporting ? (
+          <ActivityIndicator color="#4f46e5" />
+        ) : (
+          <Text style={styles.buttonText}>Export My Data</Text>
+        )}
+      </TouchableOpacity>
+
+      {!isConfirmingDelete ? (
+        <TouchableOpacity
+          style={[styles.button, styles.deleteButton]}
+          onPress={handleStartDelete}
+          disabled={isCheckingLists}
+          testID="delete-account-button"
+        >
+          {isCheckingLists ? (
+            <ActivityIndicator color="#dc2626" />
+          ) : (
+            <Text style={styles.deleteButtonText}>Delete My Account</Text>
+          )}
+        </TouchableOpacity>
+      ) : sharedLists.length > 0 ? (
+        <View style={styles.confirmBox} testID="delete-account-blocked">
+          <Text style={styles.confirmTitle}>You own shared lists</Text>
+          <Text style={styles.confirmText}>
+            Deleting your account would delete {sharedLists.join(', ')} and
+            their tasks for everyone in them. Delete those lists or remove their
+            members first.
+          </Text>
+          <TouchableOpacity
+            style={[styles.button, styles.confirmButton]}
+            onPress={handleCancelDelete}
+            testID="delete-account-blocked-ok-button"
+          >
+            <Text style={styles.buttonText}>OK</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={styles.confirmBox} testID="delete-account-confirm">
+          <Text style={styles.confirmTitle}>Delete your account?</Text>
+          <Text style={styles.confirmText}>
+            Your profile, tasks, checklists and categories will be deleted and
+            can't be recovered. Enter your password to confirm. Signed in with
+            Google or Apple? Set a password above first.
+          </Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Password"
+            placeholderTextColor="#999"
+            value={password}
+            onChangeText={setPassword}
+            secureTextEntry
+            autoCapitalize="none"
+            editable={!isDeleting}
+            testID="delete-account-password-input"
+          />
+          {isMfaEnabled && (
+            <TextInput
+              style={styles.input}
+              placeholder="Code from your authenticator app"
+              placeholderTextColor="#999"
+              value={totpCode}
+              onChangeText={setTotpCode}
+              keyboardType="number-pad"
+              maxLength={TOTP_CODE_LENGTH}
+              autoComplete="one-time-code"
+              editable={!isDeleting}
+              testID="delete-account-code-input"
+            />
+          )}
+          <View style={styles.confirmButtons}>
+            <TouchableOpacity
+              style={[styles.button, styles.confirmButton]}
+              onPress={handleCancelDelete}
+              disabled={isDeleting}
+              testID="delete-account-cancel-button"
+            >
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.button,
+                styles.confirmButton,
+                styles.deleteConfirmButton,
+              ]}
+              onPress={handleDelete}
+              disabled={isDeleting}
+              testID="delete-account-confirm-button"
+            >
+              {isDeleting ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.deleteConfirmText}>Delete</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    paddingVertical: 14,
+    marginBottom: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#c7d2fe',
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#4f46e5',
+  },
+  deleteButton: {
+    borderColor: '#fecaca',
+  },
+  deleteButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#dc2626',
+  },
+  confirmBox: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: '#fef2f2',
+    borderWidth: 1,
+    borderColor: '#fecaca',
+  },
+  confirmTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#991b1b',
+    marginBottom: 4,
+  },
+  confirmText: {
+    fontSize: 13,
+    color: '#7f1d1d',
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 12,
+    fontSize: 16,
+    color: '#111827',
+    backgroundColor: '#fff',
+  },
+  confirmButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  confirmButton: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  deleteConfirmButton: {
+    backgroundColor: '#dc2626',
+    borderColor: '#dc2626',
+  },
+  deleteConfirmText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
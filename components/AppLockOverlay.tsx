@@ -0,0 +1,84 @@
+import React from 'react';
+import { StyleSheet, Text, View, TouchableOpacity } from 'react-native';
+import { BlurView } from '@react-native-community/blur';
+
+interface AppLockOverlayProps {
+  // False while the app is only in the background, before it locks
+  isLocked: boolean;
+  onUnlock: () => void;
+  onLogout: () => void;
+}
+
+// Blurs the screen underneath; the buttons only show once it is locked
+export const AppLockOverlay: React.FC<AppLockOverlayProps> = ({
+  isLocked,
+  onUnlock,
+  onLogout,
+}) => (
+  <View style={StyleSheet.absoluteFill} testID="app-lock-overlay">
+    <BlurView
+      style={StyleSheet.absoluteFill}
+      blurType="light"
+      blurAmount={20}
+      reducedTransparencyFallbackColor="#f5f5f7"
+    />
+    {isLocked && (
+      <View style={styles.content}>
+        <Text style={styles.icon}>🔒</Text>
+        <Text style={styles.title}>Tasks Locked</Text>
+        <TouchableOpacity
+          style={styles.unlockButton}
+          onPress={onUnlock}
+          testID="app-lock-unlock-button"
+        >
+          <Text style={styles.unlockButtonText}>Unlock</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.logoutButton}
+          onPress={onLogout}
+          testID="app-lock-logout-button"
+        >
+          <Text style={styles.logoutText}>Log out instead</Text>
+        </TouchableOpacity>
+      </View>
+    )}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  content: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  icon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 24,
+  },
+  unlockButton: {
+    paddingHorizontal: 48,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#6366f1',
+  },
+  unlockButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  logoutButton: {
+    marginTop: 24,
+  },
+  logoutText: {
+    fontSize: 14,
+    color: '#6b7280',
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,81 @@
+import React from 'react';
+import { StyleSheet, Text, View, TouchableOpacity } from 'react-native';
+import { Avatar } from './Avatar';
+import { Person, personName } from '../hooks/usePeople';
+
+interface AssigneePickerProps {
+  people: Person[];
+  selectedId: string | null;
+  onSelect: (userId: string | null) => void;
+}
+
+// A chip per person who can take the task, plus one to leave it unassigned
+export const AssigneePicker: React.FC<AssigneePickerProps> = ({
+  people,
+  selectedId,
+  onSelect,
+}) => (
+  <View style={styles.container} testID="assignee-picker">
+    <TouchableOpacity
+      style={[styles.chip, !selectedId && styles.chipActive]}
+      onPress={() => onSelect(null)}
+      testID="assignee-option-none"
+    >
+      <Text style={[styles.chipText, !selectedId && styles.chipTextActive]}>
+        Unassigned
+      </Text>
+    </TouchableOpacity>
+    {people.map(person => (
+      <TouchableOpacity
+        key={person.id}
+        style={[styles.chip, selectedId === person.id && styles.chipActive]}
+        onPress={() => onSelect(person.id)}
+        testID={`assignee-option-${person.id}`}
+      >
+        <Avatar url={person.avatarUrl} name={personName(person)} size={20} />
+        <Text
+          style={[
+            styles.chipText,
+            selectedId === person.id && styles.chipTextActive,
+          ]}
+          numberOfLines={1}
+        >
+          {personName(person)}
+        </Text>
+      </TouchableOpacity>
+    ))}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    maxWidth: '100%',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f9fafb',
+  },
+  chipActive: {
+    borderColor: '#6366f1',
+    backgroundColor: '#eef2ff',
+  },
+  chipText: {
+    flexShrink: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextActive: {
+    color: '#4f46e5',
+    fontWeight: '600',
+  },
+});
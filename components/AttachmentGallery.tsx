@@ -0,0 +1,384 @@
+import React from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  Image,
+  TouchableOpacity,
+  Alert,
+  Linking,
+} from 'react-native';
+import { launchCamera, launchImageLibrary } from 'react-native-image-picker';
+import {
+  errorCodes,
+  isErrorWithCode,
+  keepLocalCopy,
+  pick,
+} from '@react-native-documents/picker';
+import {
+  Attachment,
+  PendingUpload,
+  PickedFile,
+  isImage,
+} from '../lib/attachments';
+
+interface AttachmentGalleryProps {
+  attachments: Attachment[];
+  // Signed links, by storage path
+  urls: Record<string, string>;
+  uploads: PendingUpload[];
+  error: string | null;
+  // False for viewers, who can only look
+  canEdit: boolean;
+  currentUserId: string | null;
+  onAdd: (file: PickedFile) => Promise<{ success: boolean; error?: string }>;
+  onDelete: (
+    attachment: Attachment,
+  ) => Promise<{ success: boolean; error?: string }>;
+  onCancelUpload: (id: string) => void;
+}
+
+const formatSize = (bytes: number | null) => {
+  if (bytes == null) return '';
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * A task's photos and files. Images show as a grid of thumbnails and other
+ * files as a list; tapping either opens it. Uploads in progress are listed
+ * with how far along they are.
+ */
+export const AttachmentGallery: React.FC<AttachmentGalleryProps> = ({
+  attachments,
+  urls,
+  uploads,
+  error,
+  canEdit,
+  currentUserId,
+  onAdd,
+  onDelete,
+  onCancelUpload,
+}) => {
+  const images = attachments.filter(isImage);
+  const files = attachments.filter(attachment => !isImage(attachment));
+
+  const add = async (file: PickedFile) => {
+    const result = await onAdd(file);
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to attach file');
+    }
+  };
+
+  const handlePhoto = async (source: 'camera' | 'library') => {
+    const launch = source === 'camera' ? launchCamera : launchImageLibrary;
+    const response = await launch({
+      mediaType: source === 'camera' ? 'photo' : 'mixed',
+      quality: 0.8,
+    });
+    if (response.errorMessage) {
+      Alert.alert('Error', response.errorMessage);
+    }
+    const asset = response.assets?.[0];
+    if (response.didCancel || !asset?.uri) return;
+
+    add({
+      uri: asset.uri,
+      name: asset.fileName,
+      type: asset.type,
+      size: asset.fileSize,
+    });
+  };
+
+  const handleFile = async () => {
+    try {
+      const [file] = await pick();
+      // A copy the app owns, so the upload can resume after a restart
+      const [copy] = await keepLocalCopy({
+        files: [{ uri: file.uri, fileName: file.name ?? 'file' }],
+        destination: 'documentDirectory',
+      });
+      if (copy.status === 'error') throw new Error(copy.copyError);
+
+      add({
+        uri: copy.localUri,
+        name: file.name,
+        type: file.type,
+        size: file.size,
+      });
+    } catch (err: any) {
+      if (isErrorWithCode(err) && err.code === errorCodes.OPERATION_CANCELED) {
+        return;
+      }
+      Alert.alert('Error', err.message || 'Failed to pick file');
+    }
+  };
+
+  const handleOpen = (attachment: Attachment) => {
+    const url = urls[attachment.path];
+    if (!url) {
+      Alert.alert('Error', 'This file is still loading');
+      return;
+    }
+    Linking.openURL(url).catch(() =>
+      Alert.alert('Error', 'This file could not be opened'),
+    );
+  };
+
+  const handleDelete = (attachment: Attachment) => {
+    Alert.alert('Delete Attachment', `Delete "${attachment.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const result = await onDelete(attachment);
+          if (!result.success) {
+            Alert.alert('Error', result.error || 'Failed to delete attachment');
+          }
+        },
+      },
+    ]);
+  };
+
+  // Uploaders can remove their own files, editors anyone's
+  const canDelete = (attachment: Attachment) =>
+    canEdit || attachment.user_id === currentUserId;
+
+  return (
+    <View testID="attachment-gallery">
+      {error && (
+        <Text
+          style={[styles.errorText, styles.error]}
+          testID="attachment-error"
+        >
+          {error}
+        </Text>
+      )}
+
+      {canEdit && (
+        <View style={styles.addRow}>
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={() => handlePhoto('camera')}
+            testID="attachment-camera-button"
+          >
+            <Text style={styles.addButtonText}>Take Photo</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={() => handlePhoto('library')}
+            testID="attachment-library-button"
+          >
+            <Text style={styles.addButtonText}>Choose Photo</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={handleFile}
+            testID="attachment-file-button"
+          >
+            <Text style={styles.addButtonText}>Choose File</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {uploads.map(upload => (
+        <View
+          key={upload.id}
+          style={styles.upload}
+          testID={`attachment-upload-${upload.id}`}
+        >
+          <View style={styles.uploadHeader}>
+            <Text style={styles.fileName} numberOfLines={1}>
+              {upload.name}
+            </Text>
+            <TouchableOpacity
+              onPress={() => onCancelUpload(upload.id)}
+              testID={`attachment-upload-cancel-${upload.id}`}
+            >
+              <Text style={styles.removeText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+          <View style={styles.progressTrack}>
+            <View
+              style={[
+                styles.progressFill,
+                { width: `${Math.round(upload.progress * 100)}%` },
+              ]}
+            />
+          </View>
+          <Text style={upload.error ? styles.errorText : styles.metaText}>
+            {upload.error
+              ? `${upload.error}. Retrying when the app is reopened.`
+              : `Uploading ${Math.round(upload.progress * 100)}%`}
+          </Text>
+        </View>
+      ))}
+
+      {attachments.length === 0 && uploads.length === 0 && (
+        <Text style={styles.emptyText}>No files attached yet.</Text>
+      )}
+
+      {images.length > 0 && (
+        <View style={styles.grid}>
+          {images.map(image => (
+            <TouchableOpacity
+              key={image.id}
+              style={styles.tile}
+              onPress={() => handleOpen(image)}
+              onLongPress={
+                canDelete(image) ? () => handleDelete(image) : undefined
+              }
+              testID={`attachment-image-${image.id}`}
+            >
+              {urls[image.path] ? (
+                <Image
+                  source={{ uri: urls[image.path] }}
+                  style={styles.tileImage}
+                />
+              ) : (
+                <View style={[styles.tileImage, styles.tilePlaceholder]} />
+              )}
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+      {images.some(canDelete) && (
+        <Text style={styles.metaText}>
+          Press and hold a photo to delete it.
+        </Text>
+      )}
+
+      {files.map(file => (
+        <View
+          key={file.id}
+          style={styles.file}
+          testID={`attachment-file-${file.id}`}
+        >
+          <TouchableOpacity
+            style={styles.fileInfo}
+            onPress={() => handleOpen(file)}
+            testID={`attachment-open-${file.id}`}
+          >
+            <Text style={styles.fileName} numberOfLines={1}>
+              📎 {file.name}
+            </Text>
+            <Text style={styles.metaText}>{formatSize(file.size)}</Text>
+          </TouchableOpacity>
+          {canDelete(file) && (
+            <TouchableOpacity
+              onPress={() => handleDelete(file)}
+              testID={`attachment-delete-${file.id}`}
+            >
+              <Text style={styles.removeText}>Delete</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  addRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  addButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#eef2ff',
+  },
+  addButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4f46e5',
+  },
+  upload: {
+    padding: 12,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  uploadHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  progressTrack: {
+    height: 6,
+    marginVertical: 8,
+    borderRadius: 3,
+    backgroundColor: '#e5e7eb',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#6366f1',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  tile: {
+    width: 100,
+    height: 100,
+    borderRadius: 10,
+    overflow: 'hidden',
+  },
+  tileImage: {
+    width: '100%',
+    height: '100%',
+  },
+  tilePlaceholder: {
+    backgroundColor: '#e5e7eb',
+  },
+  file: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    marginTop: 12,
+    borderRadius: 12,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  fileInfo: {
+    flex: 1,
+  },
+  fileName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  metaText: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#dc2626',
+  },
+  error: {
+    marginBottom: 12,
+  },
+  removeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#dc2626',
+  },
+});
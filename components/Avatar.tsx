@@ -0,0 +1,60 @@
+import React from 'react';
+import { Image, StyleSheet, Text, View } from 'react-native';
+
+interface AvatarProps {
+  url: string | null;
+  // Display name or email, used for the initials when there's no photo
+  name: string;
+  size?: number;
+  testID?: string;
+}
+
+const initials = (name: string) =>
+  name
+    .split(/[\s@._-]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join('');
+
+export const Avatar: React.FC<AvatarProps> = ({
+  url,
+  name,
+  size = 40,
+  testID,
+}) => {
+  const shape = { width: size, height: size, borderRadius: size / 2 };
+
+  if (url) {
+    return (
+      <Image
+        source={{ uri: url }}
+        style={[styles.image, shape]}
+        testID={testID}
+      />
+    );
+  }
+
+  return (
+    <View style={[styles.placeholder, shape]} testID={testID}>
+      <Text style={[styles.initials, { fontSize: size * 0.4 }]}>
+        {initials(name)}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  image: {
+    backgroundColor: '#e0e7ff',
+  },
+  placeholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#e0e7ff',
+  },
+  initials: {
+    fontWeight: '700',
+    color: '#4f46e5',
+  },
+});
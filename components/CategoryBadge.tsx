@@ -0,0 +1,45 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Category } from '../hooks/useCategories';
+
+interface CategoryBadgeProps {
+  // Undefined when the task has no category or it was deleted
+  category?: Category;
+  testID?: string;
+}
+
+export const CategoryBadge: React.FC<CategoryBadgeProps> = ({
+  category,
+  testID,
+}) => (
+  <View
+    style={[
+      styles.badge,
+      category && {
+        backgroundColor: `${category.color}1a`,
+        borderColor: category.color,
+      },
+    ]}
+    testID={testID}
+  >
+    <Text style={[styles.text, category && { color: category.color }]}>
+      {category ? `${category.icon} ${category.name}` : 'Uncategorized'}
+    </Text>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  badge: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  text: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+});
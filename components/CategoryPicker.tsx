@@ -0,0 +1,442 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import {
+  CATEGORY_COLORS,
+  CATEGORY_ICONS,
+  Category,
+  CategoryFields,
+} from '../hooks/useCategories';
+
+type Result = { success: boolean; error?: string };
+
+interface CategoryFormProps {
+  initial: CategoryFields;
+  submitLabel: string;
+  onSubmit: (fields: CategoryFields) => void;
+  onCancel: () => void;
+  testID: string;
+}
+
+// Name, color and icon, shared by the create and edit panels
+const CategoryForm: React.FC<CategoryFormProps> = ({
+  initial,
+  submitLabel,
+  onSubmit,
+  onCancel,
+  testID,
+}) => {
+  const [name, setName] = useState(initial.name);
+  const [color, setColor] = useState(initial.color);
+  const [icon, setIcon] = useState(initial.icon);
+
+  const handleSubmit = () => {
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please enter a category name');
+      return;
+    }
+    onSubmit({ name: name.trim(), color, icon });
+  };
+
+  return (
+    <View testID={testID}>
+      <TextInput
+        style={styles.input}
+        placeholder="Category name"
+        placeholderTextColor="#999"
+        value={name}
+        onChangeText={setName}
+        autoFocus
+        testID={`${testID}-name-input`}
+      />
+      <View style={styles.swatchRow}>
+        {CATEGORY_COLORS.map(c => (
+          <TouchableOpacity
+            key={c}
+            style={[
+              styles.swatch,
+              { backgroundColor: c },
+              color === c && styles.swatchSelected,
+            ]}
+            onPress={() => setColor(c)}
+            testID={`${testID}-color-${c}`}
+          />
+        ))}
+      </View>
+      <View style={styles.swatchRow}>
+        {CATEGORY_ICONS.map(i => (
+          <TouchableOpacity
+            key={i}
+            style={[styles.iconOption, icon === i && styles.iconSelected]}
+            onPress={() => setIcon(i)}
+            testID={`${testID}-icon-${i}`}
+          >
+            <Text style={styles.iconText}>{i}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <View style={styles.formButtons}>
+        <TouchableOpacity
+          style={[styles.formButton, styles.cancelButton]}
+          onPress={onCancel}
+          testID={`${testID}-cancel-button`}
+        >
+          <Text style={styles.cancelButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.formButton, styles.saveButton]}
+          onPress={handleSubmit}
+          testID={`${testID}-save-button`}
+        >
+          <Text style={styles.saveButtonText}>{submitLabel}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+interface CategoryPickerProps {
+  categories: Category[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: (fields: CategoryFields) => Promise<Result & { data?: Category }>;
+  onUpdate: (id: string, fields: Partial<CategoryFields>) => Promise<Result>;
+  // Moves all tasks into `targetId` and removes `sourceId`
+  onMerge: (sourceId: string, targetId: string) => Promise<Result>;
+  onDelete: (id: string) => Promise<Result>;
+}
+
+/**
+ * Category chips for the task form. "New" creates a category inline and
+ * selects it; a long press on a chip opens rename, merge and delete.
+ */
+export const CategoryPicker: React.FC<CategoryPickerProps> = ({
+  categories,
+  selectedId,
+  onSelect,
+  onCreate,
+  onUpdate,
+  onMerge,
+  onDelete,
+}) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [editing, setEditing] = useState<Category | null>(null);
+
+  const handleCreate = async (fields: CategoryFields) => {
+    const result = await onCreate(fields);
+    if (result.success && result.data) {
+      onSelect(result.data.id);
+      setIsCreating(false);
+    } else {
+      Alert.alert('Error', result.error || 'Failed to create category');
+    }
+  };
+
+  const handleUpdate = async (fields: CategoryFields) => {
+    if (!editing) return;
+    const result = await onUpdate(editing.id, fields);
+    if (result.success) {
+      setEditing(null);
+    } else {
+      Alert.alert('Error', result.error || 'Failed to update category');
+    }
+  };
+
+  const handleMerge = (source: Category, target: Category) => {
+    Alert.alert(
+      'Merge Categories',
+      `Move all tasks from "${source.name}" into "${target.name}" and remove "${source.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Merge',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await onMerge(source.id, target.id);
+            if (result.success) {
+              if (selectedId === source.id) onSelect(target.id);
+              setEditing(null);
+            } else {
+              Alert.alert(
+                'Error',
+                result.error || 'Failed to merge categories',
+              );
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleDelete = (category: Category) => {
+    Alert.alert(
+      'Delete Category',
+      `Delete "${category.name}"? Its tasks will be left without a category.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await onDelete(category.id);
+            if (result.success) {
+              setEditing(null);
+            } else {
+              Alert.alert('Error', result.error || 'Failed to delete category');
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <View testID="category-picker">
+      <View style={styles.chipRow}>
+        {categories.map(category => {
+          const isSelected = category.id === selectedId;
+          return (
+            <TouchableOpacity
+              key={category.id}
+              style={[
+                styles.chip,
+                isSelected && {
+                  borderColor: category.color,
+                  backgroundColor: `${category.color}1a`,
+                },
+              ]}
+              onPress={() => onSelect(category.id)}
+              onLongPress={() => {
+                setIsCreating(false);
+                setEditing(category);
+              }}
+              testID={`category-option-${category.id}`}
+            >
+              <View style={[styles.dot, { backgroundColor: category.color }]} />
+              <Text
+                style={[
+                  styles.chipText,
+                  isSelected && { color: category.color },
+                ]}
+              >
+                {category.icon} {category.name}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+        <TouchableOpacity
+          style={[styles.chip, styles.newChip]}
+          onPress={() => {
+            setEditing(null);
+            setIsCreating(true);
+          }}
+          testID="category-new-button"
+        >
+          <Text style={styles.newChipText}>+ New</Text>
+        </TouchableOpacity>
+      </View>
+
+      {categories.length > 0 && !isCreating && !editing && (
+        <Text style={styles.hint}>Long-press a category to edit it</Text>
+      )}
+
+      {isCreating && (
+        <View style={styles.panel}>
+          <CategoryForm
+            initial={{
+              name: '',
+              color:
+                CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length],
+              icon: CATEGORY_ICONS[0],
+            }}
+            submitLabel="Create"
+            onSubmit={handleCreate}
+            onCancel={() => setIsCreating(false)}
+            testID="category-create"
+          />
+        </View>
+      )}
+
+      {editing && (
+        <View style={styles.panel}>
+          <CategoryForm
+            key={editing.id}
+            initial={editing}
+            submitLabel="Save"
+            onSubmit={handleUpdate}
+            onCancel={() => setEditing(null)}
+            testID="category-edit"
+          />
+          {categories.length > 1 && (
+            <>
+              <Text style={styles.panelLabel}>Merge into</Text>
+              <View style={styles.chipRow}>
+                {categories
+                  .filter(category => category.id !== editing.id)
+                  .map(category => (
+                    <TouchableOpacity
+                      key={category.id}
+                      style={styles.chip}
+                      onPress={() => handleMerge(editing, category)}
+                      testID={`category-merge-${category.id}`}
+                    >
+                      <Text style={styles.chipText}>
+                        {category.icon} {category.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+              </View>
+            </>
+          )}
+          <TouchableOpacity
+            style={styles.deleteButton}
+            onPress={() => handleDelete(editing)}
+            testID="category-delete-button"
+          >
+            <Text style={styles.deleteButtonText}>Delete category</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f9fafb',
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  newChip: {
+    borderStyle: 'dashed',
+  },
+  newChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  hint: {
+    marginTop: 8,
+    fontSize: 12,
+    color: '#9ca3af',
+  },
+  panel: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  panelLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    color: '#111827',
+    backgroundColor: '#f9fafb',
+    marginBottom: 12,
+  },
+  swatchRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  swatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 3,
+    borderColor: 'transparent',
+  },
+  swatchSelected: {
+    borderColor: '#111827',
+  },
+  iconOption: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#f3f4f6',
+  },
+  iconSelected: {
+    backgroundColor: '#e0e7ff',
+  },
+  iconText: {
+    fontSize: 18,
+  },
+  formButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  formButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#f3f4f6',
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  saveButton: {
+    backgroundColor: '#6366f1',
+  },
+  saveButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  deleteButton: {
+    marginTop: 12,
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  deleteButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#dc2626',
+  },
+});
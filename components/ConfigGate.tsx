@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  ActivityIndicator,
+  SafeAreaView,
+} from 'react-native';
+import { loadConfig } from '../lib/config';
+import { initSupabase } from '../lib/supabase';
+import { ConfigErrorScreen } from '../screens/ConfigErrorScreen';
+
+interface ConfigGateProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Loads and validates the Supabase config, then creates the client. The
+ * children only mount once that has succeeded, so they can use `supabase`
+ * right away.
+ */
+export const ConfigGate: React.FC<ConfigGateProps> = ({ children }) => {
+  const [isReady, setIsReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadConfig()
+      .then(config => {
+        initSupabase(config);
+        setIsReady(true);
+      })
+      .catch((err: any) => {
+        setError(err.message || 'Failed to load configuration');
+      });
+  }, []);
+
+  if (error) {
+    return <ConfigErrorScreen message={error} />;
+  }
+
+  if (!isReady) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#6366f1" />
+          <Text style={styles.loadingText}>Loading...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f7',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6b7280',
+  },
+});
@@ -0,0 +1,253 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, View, TouchableOpacity } from 'react-native';
+import { ItemConflict, ItemFields } from '../hooks/useItems';
+import { STATUS_LABELS, formatTaskValue } from '../lib/taskQuery';
+
+type Source = 'mine' | 'theirs' | 'original';
+// `completed_at` isn't offered on its own, it follows whichever status wins
+type FieldKey = Exclude<keyof ItemFields, 'completed_at'>;
+type Formatter = (value: unknown) => string;
+
+// Shows what an empty or unreadable value means for the field
+const formatOr =
+  (field: FieldKey, fallback: string): Formatter =>
+  value =>
+    formatTaskValue(field, value) || fallback;
+
+const FIELDS: {
+  key: FieldKey;
+  label: string;
+  format?: Formatter;
+}[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'category', label: 'Category' },
+  { key: 'priority', label: 'Priority' },
+  {
+    key: 'status',
+    label: 'Status',
+    format: formatOr('status', STATUS_LABELS.open),
+  },
+  { key: 'due_at', label: 'Due', format: formatOr('due_at', 'No due date') },
+  {
+    key: 'reminder_offsets',
+    label: 'Reminders',
+    format: formatOr('reminder_offsets', 'None'),
+  },
+  { key: 'assignee_id', label: 'Assignee' },
+];
+
+const SOURCE_LABELS: Record<Source, string> = {
+  mine: 'Mine',
+  theirs: 'Theirs',
+  original: 'Original',
+};
+
+interface ConflictResolverProps {
+  conflict: ItemConflict;
+  // Display overrides, e.g. to show category names instead of ids
+  formatters?: Partial<Record<FieldKey, Formatter>>;
+  onResolve: (fields: Partial<ItemFields>) => void;
+  onDiscard: () => void;
+}
+
+export const ConflictResolver: React.FC<ConflictResolverProps> = ({
+  conflict,
+  formatters = {},
+  onResolve,
+  onDiscard,
+}) => {
+  const { mine, theirs, original } = conflict;
+
+  const valueFor = (source: Source, key: keyof ItemFields) => {
+    switch (source) {
+      case 'mine':
+        // `null` is a real value here (e.g. a cleared due date)
+        if (key in mine) return mine[key];
+        return original ? original[key] : theirs[key];
+      case 'theirs':
+        return theirs[key];
+      case 'original':
+        return original?.[key];
+    }
+  };
+
+  const display = (source: Source, key: FieldKey, format?: Formatter) => {
+    const value = valueFor(source, key);
+    const formatter = formatters[key] ?? format;
+    return formatter ? formatter(value) : String(value ?? '') || '—';
+  };
+
+  // Default to my value for fields I edited, otherwise keep theirs
+  const [choices, setChoices] = useState<Record<FieldKey, Source>>(() => {
+    const initial = {} as Record<FieldKey, Source>;
+    FIELDS.forEach(({ key }) => {
+      initial[key] = key in mine ? 'mine' : 'theirs';
+    });
+    return initial;
+  });
+
+  const sources: Source[] = original
+    ? ['mine', 'theirs', 'original']
+    : ['mine', 'theirs'];
+
+  const handleRetry = () => {
+    const resolved = Object.fromEntries(
+      FIELDS.map(({ key }) => [key, valueFor(choices[key], key) ?? null]),
+    ) as Partial<ItemFields>;
+    onResolve({
+      ...resolved,
+      status: resolved.status ?? 'open',
+      completed_at:
+        (valueFor(
+          choices.status,
+          'completed_at',
+        ) as ItemFields['completed_at']) ?? null,
+    });
+  };
+
+  return (
+    <View style={styles.container} testID="conflict-resolver">
+      <Text style={styles.title}>This item was changed elsewhere</Text>
+      <Text style={styles.subtitle}>
+        Pick which version to keep for each field, then save again.
+      </Text>
+
+      {FIELDS.map(({ key, label, format }) => (
+        <View key={key} style={styles.field}>
+          <Text style={styles.label}>{label}</Text>
+          {sources.map(source => {
+            const isSelected = choices[key] === source;
+            return (
+              <TouchableOpacity
+                key={source}
+                style={[styles.option, isSelected && styles.optionSelected]}
+                onPress={() => setChoices(prev => ({ ...prev, [key]: source }))}
+                testID={`conflict-option-${key}-${source}`}
+              >
+                <Text
+                  style={[
+                    styles.optionSource,
+                    isSelected && styles.optionSourceSelected,
+                  ]}
+                >
+                  {SOURCE_LABELS[source]}
+                </Text>
+                <Text style={styles.optionValue} numberOfLines={2}>
+                  {display(source, key, format)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      ))}
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={[styles.button, styles.discardButton]}
+          onPress={onDiscard}
+          testID="conflict-discard-button"
+        >
+          <Text style={styles.discardButtonText}>Keep Theirs</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, styles.retryButton]}
+          onPress={handleRetry}
+          testID="conflict-retry-button"
+        >
+          <Text style={styles.retryButtonText}>Save Selection</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 20,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#fffbeb',
+    borderWidth: 1,
+    borderColor: '#fde68a',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#92400e',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#b45309',
+    marginBottom: 16,
+  },
+  field: {
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 10,
+    marginBottom: 6,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+    gap: 12,
+  },
+  optionSelected: {
+    borderColor: '#6366f1',
+    backgroundColor: '#eef2ff',
+  },
+  optionSource: {
+    width: 64,
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#6b7280',
+    textTransform: 'uppercase',
+  },
+  optionSourceSelected: {
+    color: '#4f46e5',
+  },
+  optionValue: {
+    flex: 1,
+    fontSize: 14,
+    color: '#111827',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  discardButton: {
+    backgroundColor: '#f3f4f6',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  discardButtonText: {
+    color: '#6b7280',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  retryButton: {
+    backgroundColor: '#6366f1',
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,129 @@
+import React from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  Alert,
+  DevSettings,
+} from 'react-native';
+import { clearSessionStorage, supabase } from '../lib/supabase';
+import {
+  FLAVORS,
+  FLAVOR_LABELS,
+  Flavor,
+  getActiveConfig,
+  getBuildFlavor,
+  isFlavorConfigured,
+  setFlavorOverride,
+} from '../lib/config';
+
+/**
+ * Debug builds only: points the app at another Supabase project. Signs out
+ * first, since the session belongs to the current project, then reloads.
+ */
+export const DevProjectSwitcher: React.FC = () => {
+  const current = getActiveConfig()?.flavor;
+
+  const switchTo = async (flavor: Flavor) => {
+    try {
+      // Local scope clears the session even if the project is unreachable
+      if (supabase) {
+        await supabase.auth.signOut({ scope: 'local' });
+      }
+      await clearSessionStorage();
+      let buildFlavor: Flavor | null = null;
+      try {
+        buildFlavor = getBuildFlavor();
+      } catch {
+        // An invalid APP_FLAVOR keeps the override in place
+      }
+      await setFlavorOverride(flavor === buildFlavor ? null : flavor);
+      DevSettings.reload();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to switch project');
+    }
+  };
+
+  const handlePress = (flavor: Flavor) => {
+    if (flavor === current) return;
+    Alert.alert(
+      'Switch Project',
+      `Use the ${FLAVOR_LABELS[flavor]} project? You'll be signed out and the app will reload.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Switch', onPress: () => switchTo(flavor) },
+      ],
+    );
+  };
+
+  if (!__DEV__) return null;
+
+  return (
+    <View testID="dev-project-switcher">
+      <Text style={styles.title}>Supabase project (debug builds only)</Text>
+      <View style={styles.chipRow}>
+        {FLAVORS.map(flavor => {
+          const isConfigured = isFlavorConfigured(flavor);
+          const isCurrent = flavor === current;
+          return (
+            <TouchableOpacity
+              key={flavor}
+              style={[
+                styles.chip,
+                isCurrent && styles.chipSelected,
+                !isConfigured && styles.chipDisabled,
+              ]}
+              onPress={() => handlePress(flavor)}
+              disabled={!isConfigured}
+              testID={`dev-project-${flavor}`}
+            >
+              <Text
+                style={[styles.chipText, isCurrent && styles.chipTextSelected]}
+              >
+                {FLAVOR_LABELS[flavor]}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  title: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f9fafb',
+  },
+  chipSelected: {
+    borderColor: '#6366f1',
+    backgroundColor: '#eef2ff',
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  chipTextSelected: {
+    color: '#4f46e5',
+  },
+});
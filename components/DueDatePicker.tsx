@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  Platform,
+} from 'react-native';
+import DateTimePicker, {
+  DateTimePickerAndroid,
+  DateTimePickerEvent,
+} from '@react-native-community/datetimepicker';
+
+export const formatDueDate = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// Tomorrow at 9am is a sensible starting point for a new due date
+const defaultDueDate = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  date.setHours(9, 0, 0, 0);
+  return date;
+};
+
+interface DueDatePickerProps {
+  // ISO timestamp, or null for no due date
+  value: string | null;
+  onChange: (value: string | null) => void;
+}
+
+export const DueDatePicker: React.FC<DueDatePickerProps> = ({
+  value,
+  onChange,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const current = value ? new Date(value) : defaultDueDate();
+
+  // Android has no combined picker, so ask for the date and then the time
+  const openAndroid = () => {
+    DateTimePickerAndroid.open({
+      value: current,
+      mode: 'date',
+      onChange: (event: DateTimePickerEvent, date?: Date) => {
+        if (event.type !== 'set' || !date) return;
+        DateTimePickerAndroid.open({
+          value: date,
+          mode: 'time',
+          onChange: (timeEvent: DateTimePickerEvent, time?: Date) => {
+            if (timeEvent.type !== 'set' || !time) return;
+            onChange(time.toISOString());
+          },
+        });
+      },
+    });
+  };
+
+  const handlePress = () => {
+    if (Platform.OS === 'android') {
+      openAndroid();
+    } else {
+      if (!value) onChange(current.toISOString());
+      setIsOpen(!isOpen);
+    }
+  };
+
+  const handleClear = () => {
+    setIsOpen(false);
+    onChange(null);
+  };
+
+  return (
+    <View testID="due-date-picker">
+      <View style={styles.row}>
+        <TouchableOpacity
+          style={[styles.button, value && styles.buttonActive]}
+          onPress={handlePress}
+          testID="due-date-button"
+        >
+          <Text style={[styles.buttonText, value && styles.buttonTextActive]}>
+            {value ? formatDueDate(value) : 'No due date'}
+          </Text>
+        </TouchableOpacity>
+        {value && (
+          <TouchableOpacity
+            style={styles.clearButton}
+            onPress={handleClear}
+            testID="due-date-clear-button"
+          >
+            <Text style={styles.clearButtonText}>Clear</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      {isOpen && Platform.OS === 'ios' && (
+        <DateTimePicker
+          value={current}
+          mode="datetime"
+          display="inline"
+          onChange={(_event, date) => date && onChange(date.toISOString())}
+          testID="due-date-ios-picker"
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  button: {
+    flex: 1,
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    padding: 14,
+    backgroundColor: '#f9fafb',
+  },
+  buttonActive: {
+    borderColor: '#c7d2fe',
+    backgroundColor: '#eef2ff',
+  },
+  buttonText: {
+    fontSize: 16,
+    color: '#999',
+  },
+  buttonTextActive: {
+    color: '#4f46e5',
+    fontWeight: '600',
+  },
+  clearButton: {
+    paddingHorizontal: 16,
+    justifyContent: 'center',
+    borderRadius: 12,
+    backgroundColor: '#f3f4f6',
+  },
+  clearButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+});
@@ -0,0 +1,463 @@
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  Platform,
+} from 'react-native';
+import DateTimePicker, {
+  DateTimePickerAndroid,
+  DateTimePickerEvent,
+} from '@react-native-community/datetimepicker';
+import {
+  CREATED_PRESETS,
+  CreatedPreset,
+  DEFAULT_QUERY,
+  PRIORITIES,
+  Priority,
+  SortField,
+  SORT_FIELDS,
+  TaskQuery,
+  TaskView,
+  TASK_VIEWS,
+  endOfDay,
+  startOfDay,
+} from '../lib/taskQuery';
+import { Category } from '../hooks/useCategories';
+
+const SORT_LABELS: Record<SortField, string> = {
+  created_at: 'Created',
+  updated_at: 'Updated',
+  due_at: 'Due date',
+  title: 'Title',
+};
+
+const VIEW_LABELS: Record<TaskView, string> = {
+  all: 'Active',
+  due_soon: 'Due soon',
+  completed: 'Completed',
+};
+
+// Views with a fixed order ignore the sort options
+const VIEW_ORDER_HINTS: Partial<Record<TaskView, string>> = {
+  due_soon: 'Due soon is ordered by due date',
+  completed: 'Completed tasks are ordered by completion date',
+};
+
+const PRESET_LABELS: Record<CreatedPreset, string> = {
+  today: 'Today',
+  week: '7 days',
+  month: '30 days',
+};
+
+type DateBound = 'from' | 'to';
+
+const formatDay = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+interface FilterBarProps {
+  query: TaskQuery;
+  categories: Category[];
+  onChange: (query: TaskQuery) => void;
+}
+
+export const FilterBar: React.FC<FilterBarProps> = ({
+  query,
+  categories,
+  onChange,
+}) => {
+  const [search, setSearch] = useState(query.search ?? '');
+  const [isExpanded, setIsExpanded] = useState(false);
+  // The end of the created range being picked on iOS
+  const [editingBound, setEditingBound] = useState<DateBound | null>(null);
+
+  // Keep the input in step when the query is restored or cleared
+  useEffect(() => {
+    setSearch(query.search ?? '');
+  }, [query.search]);
+
+  const activeCount =
+    (query.view !== 'all' ? 1 : 0) +
+    (query.priorities.length > 0 ? 1 : 0) +
+    (query.categoryId ? 1 : 0) +
+    (query.createdPreset || query.createdFrom || query.createdTo ? 1 : 0);
+
+  const update = (changes: Partial<TaskQuery>) =>
+    onChange({ ...query, ...changes });
+
+  const commitSearch = () => {
+    const next = search.trim() || undefined;
+    if (next !== query.search) update({ search: next });
+  };
+
+  const togglePriority = (priority: Priority) => {
+    const priorities = query.priorities.includes(priority)
+      ? query.priorities.filter(p => p !== priority)
+      : [...query.priorities, priority];
+    update({ priorities });
+  };
+
+  // Picked days cover the whole day, and replace any preset
+  const setBound = (bound: DateBound, date: Date) =>
+    update(
+      bound === 'from'
+        ? {
+            createdPreset: undefined,
+            createdFrom: startOfDay(date).toISOString(),
+          }
+        : { createdPreset: undefined, createdTo: endOfDay(date).toISOString() },
+    );
+
+  const boundValue = (bound: DateBound) => {
+    const value = bound === 'from' ? query.createdFrom : query.createdTo;
+    return value ? new Date(value) : new Date();
+  };
+
+  const openBound = (bound: DateBound) => {
+    if (Platform.OS === 'android') {
+      DateTimePickerAndroid.open({
+        value: boundValue(bound),
+        mode: 'date',
+        onChange: (event: DateTimePickerEvent, date?: Date) => {
+          if (event.type === 'set' && date) setBound(bound, date);
+        },
+      });
+    } else {
+      setEditingBound(editingBound === bound ? null : bound);
+    }
+  };
+
+  const clearCreated = () => {
+    setEditingBound(null);
+    update({
+      createdPreset: undefined,
+      createdFrom: undefined,
+      createdTo: undefined,
+    });
+  };
+
+  const dateRangeLabel = () => {
+    if (query.createdPreset) return PRESET_LABELS[query.createdPreset];
+    if (query.createdFrom && query.createdTo) {
+      return `${formatDay(query.createdFrom)} – ${formatDay(query.createdTo)}`;
+    }
+    if (query.createdFrom) return `Since ${formatDay(query.createdFrom)}`;
+    if (query.createdTo) return `Until ${formatDay(query.createdTo)}`;
+    return null;
+  };
+
+  return (
+    <View style={styles.container} testID="filter-bar">
+      <View style={styles.searchRow}>
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search titles"
+          placeholderTextColor="#999"
+          value={search}
+          onChangeText={setSearch}
+          onSubmitEditing={commitSearch}
+          returnKeyType="search"
+          autoCapitalize="none"
+          testID="filter-search-input"
+        />
+        <TouchableOpacity
+          style={[styles.toggleButton, isExpanded && styles.toggleButtonActive]}
+          onPress={() => setIsExpanded(!isExpanded)}
+          testID="filter-toggle-button"
+        >
+          <Text style={styles.toggleButtonText}>
+            {activeCount > 0 ? `Filters (${activeCount})` : 'Filters'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {isExpanded && (
+        <View style={styles.panel} testID="filter-panel">
+          <Text style={styles.label}>Show</Text>
+          <View style={styles.chipRow}>
+            {TASK_VIEWS.map(view => (
+              <TouchableOpacity
+                key={view}
+                style={[styles.chip, query.view === view && styles.chipActive]}
+                onPress={() => update({ view })}
+                testID={`filter-view-${view}`}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    query.view === view && styles.chipTextActive,
+                  ]}
+                >
+                  {VIEW_LABELS[view]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Priority</Text>
+          <View style={styles.chipRow}>
+            {PRIORITIES.map(p => (
+              <TouchableOpacity
+                key={p}
+                style={[
+                  styles.chip,
+                  query.priorities.includes(p) && styles.chipActive,
+                ]}
+                onPress={() => togglePriority(p)}
+                testID={`filter-priority-${p.toLowerCase()}`}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    query.priorities.includes(p) && styles.chipTextActive,
+                  ]}
+                >
+                  {p}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Category</Text>
+          <View style={styles.chipRow}>
+            {categories.length === 0 && (
+              <Text style={styles.hint}>No categories yet</Text>
+            )}
+            {categories.map(category => {
+              const isActive = query.categoryId === category.id;
+              return (
+                <TouchableOpacity
+                  key={category.id}
+                  style={[styles.chip, isActive && styles.chipActive]}
+                  onPress={() =>
+                    update({ categoryId: isActive ? undefined : category.id })
+                  }
+                  testID={`filter-category-${category.id}`}
+                >
+                  <Text
+                    style={[styles.chipText, isActive && styles.chipTextActive]}
+                  >
+                    {category.icon} {category.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.label}>Created</Text>
+          <View style={styles.chipRow}>
+            {(Object.keys(CREATED_PRESETS) as CreatedPreset[]).map(preset => {
+              const isActive = query.createdPreset === preset;
+              return (
+                <TouchableOpacity
+                  key={preset}
+                  style={[styles.chip, isActive && styles.chipActive]}
+                  onPress={() => {
+                    setEditingBound(null);
+                    update({
+                      createdPreset: preset,
+                      createdFrom: undefined,
+                      createdTo: undefined,
+                    });
+                  }}
+                  testID={`filter-created-${preset}`}
+                >
+                  <Text
+                    style={[styles.chipText, isActive && styles.chipTextActive]}
+                  >
+                    {PRESET_LABELS[preset]}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+            {(['from', 'to'] as const).map(bound => {
+              const value =
+                bound === 'from' ? query.createdFrom : query.createdTo;
+              const isActive = !query.createdPreset && !!value;
+              return (
+                <TouchableOpacity
+                  key={bound}
+                  style={[styles.chip, isActive && styles.chipActive]}
+                  onPress={() => openBound(bound)}
+                  testID={`filter-created-${bound}`}
+                >
+                  <Text
+                    style={[styles.chipText, isActive && styles.chipTextActive]}
+                  >
+                    {bound === 'from' ? 'From' : 'To'}
+                    {isActive && value ? ` ${formatDay(value)}` : ''}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {editingBound && Platform.OS === 'ios' && (
+            <DateTimePicker
+              value={boundValue(editingBound)}
+              mode="date"
+              display="inline"
+              onChange={(_event, date) => date && setBound(editingBound, date)}
+              testID="filter-created-ios-picker"
+            />
+          )}
+          {dateRangeLabel() && (
+            <TouchableOpacity
+              style={[styles.chip, styles.chipActive, styles.rangeChip]}
+              onPress={clearCreated}
+              testID="filter-created-clear"
+            >
+              <Text style={[styles.chipText, styles.chipTextActive]}>
+                {dateRangeLabel()} ✕
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          <Text style={styles.label}>Sort by</Text>
+          {VIEW_ORDER_HINTS[query.view] ? (
+            <Text style={styles.hint}>{VIEW_ORDER_HINTS[query.view]}</Text>
+          ) : (
+            <View style={styles.chipRow}>
+              {SORT_FIELDS.map(field => (
+                <TouchableOpacity
+                  key={field}
+                  style={[
+                    styles.chip,
+                    query.sortBy === field && styles.chipActive,
+                  ]}
+                  onPress={() => update({ sortBy: field })}
+                  testID={`filter-sort-${field}`}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      query.sortBy === field && styles.chipTextActive,
+                    ]}
+                  >
+                    {SORT_LABELS[field]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity
+                style={styles.chip}
+                onPress={() => update({ ascending: !query.ascending })}
+                testID="filter-sort-direction"
+              >
+                <Text style={styles.chipText}>
+                  {query.ascending ? '↑ Asc' : '↓ Desc'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={styles.resetButton}
+            onPress={() => onChange(DEFAULT_QUERY)}
+            testID="filter-reset-button"
+          >
+            <Text style={styles.resetButtonText}>Reset filters</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  searchInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#111827',
+    backgroundColor: '#fff',
+  },
+  toggleButton: {
+    paddingHorizontal: 16,
+    justifyContent: 'center',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f3f4f6',
+  },
+  toggleButtonActive: {
+    borderColor: '#c7d2fe',
+    backgroundColor: '#eef2ff',
+  },
+  toggleButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4f46e5',
+  },
+  panel: {
+    marginTop: 12,
+    padding: 16,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+    marginTop: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f9fafb',
+  },
+  chipActive: {
+    borderColor: '#c7d2fe',
+    backgroundColor: '#eef2ff',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  chipTextActive: {
+    color: '#4f46e5',
+  },
+  rangeChip: {
+    alignSelf: 'flex-start',
+    marginTop: -4,
+    marginBottom: 12,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#9ca3af',
+    marginBottom: 12,
+  },
+  resetButton: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  resetButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#dc2626',
+  },
+});
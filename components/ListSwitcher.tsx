@@ -0,0 +1,327 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import {
+  ASSIGNED_TO_ME_LABEL,
+  LIST_ROLE_LABELS,
+  ListInvitation,
+  OWN_TASKS_LABEL,
+  TaskList,
+} from '../hooks/useLists';
+import { ASSIGNED_TO_ME } from '../lib/taskQuery';
+
+type Result = { success: boolean; error?: string };
+
+interface ListSwitcherProps {
+  lists: TaskList[];
+  // A list id, null for the user's own tasks or ASSIGNED_TO_ME
+  selectedListId: string | null;
+  selectedList: TaskList | null;
+  invitations: ListInvitation[];
+  onOpen: () => void;
+  onSelect: (listId: string | null) => void;
+  onCreate: (name: string) => Promise<Result>;
+  onAccept: (invitation: ListInvitation) => Promise<Result>;
+  onDecline: (invitation: ListInvitation) => Promise<Result>;
+  onManageMembers: () => void;
+}
+
+// Header pill showing the current list, which opens a panel to switch lists,
+// start a new one or answer invitations
+export const ListSwitcher: React.FC<ListSwitcherProps> = ({
+  lists,
+  selectedListId,
+  selectedList,
+  invitations,
+  onOpen,
+  onSelect,
+  onCreate,
+  onAccept,
+  onDecline,
+  onManageMembers,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  const showResult = (result: Result) => {
+    if (!result.success && result.error) {
+      Alert.alert('Error', result.error);
+    }
+    return result.success;
+  };
+
+  const handleToggle = () => {
+    if (!isOpen) onOpen();
+    setIsOpen(!isOpen);
+  };
+
+  const handleSelect = (listId: string | null) => {
+    onSelect(listId);
+    setIsOpen(false);
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) {
+      Alert.alert('Error', 'Please enter a list name');
+      return;
+    }
+    if (showResult(await onCreate(newName))) {
+      setNewName('');
+      setIsOpen(false);
+    }
+  };
+
+  const handleAccept = async (invitation: ListInvitation) => {
+    if (showResult(await onAccept(invitation))) {
+      setIsOpen(false);
+    }
+  };
+
+  const renderOption = (listId: string | null, name: string, role?: string) => {
+    const isSelected = selectedListId === listId;
+    return (
+      <TouchableOpacity
+        key={listId ?? 'own'}
+        style={[styles.option, isSelected && styles.optionSelected]}
+        onPress={() => handleSelect(listId)}
+        testID={`list-option-${listId ?? 'own'}`}
+      >
+        <Text
+          style={[styles.optionText, isSelected && styles.optionTextSelected]}
+          numberOfLines={1}
+        >
+          {name}
+        </Text>
+        {role && <Text style={styles.optionRole}>{role}</Text>}
+      </TouchableOpacity>
+    );
+  };
+
+  const label =
+    selectedList?.name ??
+    (selectedListId === ASSIGNED_TO_ME
+      ? ASSIGNED_TO_ME_LABEL
+      : OWN_TASKS_LABEL);
+
+  return (
+    <View testID="list-switcher">
+      <TouchableOpacity
+        style={styles.pill}
+        onPress={handleToggle}
+        testID="list-switcher-button"
+      >
+        <Text style={styles.pillText} numberOfLines={1}>
+          {label} ▾
+        </Text>
+        {invitations.length > 0 && (
+          <View style={styles.badge} testID="list-invitations-badge">
+            <Text style={styles.badgeText}>{invitations.length}</Text>
+          </View>
+        )}
+      </TouchableOpacity>
+
+      {isOpen && (
+        <View style={styles.panel} testID="list-switcher-panel">
+          {renderOption(null, OWN_TASKS_LABEL)}
+          {/* Only list tasks can be assigned to someone else */}
+          {lists.length > 0 &&
+            renderOption(ASSIGNED_TO_ME, ASSIGNED_TO_ME_LABEL)}
+          {lists.map(list =>
+            renderOption(list.id, list.name, LIST_ROLE_LABELS[list.role]),
+          )}
+
+          {selectedList && (
+            <TouchableOpacity
+              style={styles.linkRow}
+              onPress={() => {
+                setIsOpen(false);
+                onManageMembers();
+              }}
+              testID="list-members-button"
+            >
+              <Text style={styles.linkText}>
+                Members of {selectedList.name}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {invitations.map(invitation => (
+            <View
+              key={invitation.id}
+              style={styles.invitation}
+              testID={`list-invitation-${invitation.id}`}
+            >
+              <Text style={styles.invitationText}>
+                Join "{invitation.list_name}" as{' '}
+                {LIST_ROLE_LABELS[invitation.role].toLowerCase()}
+                {invitation.invited_by_email
+                  ? ` (from ${invitation.invited_by_email})`
+                  : ''}
+              </Text>
+              <View style={styles.invitationButtons}>
+                <TouchableOpacity
+                  onPress={() => onDecline(invitation).then(showResult)}
+                  testID={`list-invitation-decline-${invitation.id}`}
+                >
+                  <Text style={styles.declineText}>Decline</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => handleAccept(invitation)}
+                  testID={`list-invitation-accept-${invitation.id}`}
+                >
+                  <Text style={styles.linkText}>Accept</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+
+          <View style={styles.createRow}>
+            <TextInput
+              style={styles.input}
+              placeholder="New shared list"
+              placeholderTextColor="#999"
+              value={newName}
+              onChangeText={setNewName}
+              onSubmitEditing={handleCreate}
+              returnKeyType="done"
+              testID="new-list-input"
+            />
+            <TouchableOpacity
+              style={styles.createButton}
+              onPress={handleCreate}
+              testID="new-list-button"
+            >
+              <Text style={styles.createButtonText}>Create</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  pill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  pillText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  badge: {
+    minWidth: 18,
+    paddingHorizontal: 5,
+    borderRadius: 9,
+    alignItems: 'center',
+    backgroundColor: '#f59e0b',
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  panel: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#fff',
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  optionSelected: {
+    backgroundColor: '#eef2ff',
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  optionTextSelected: {
+    color: '#4f46e5',
+    fontWeight: '700',
+  },
+  optionRole: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  linkRow: {
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4f46e5',
+  },
+  invitation: {
+    marginTop: 8,
+    padding: 12,
+    borderRadius: 10,
+    backgroundColor: '#fffbeb',
+  },
+  invitationText: {
+    fontSize: 14,
+    color: '#92400e',
+    marginBottom: 8,
+  },
+  invitationButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+  },
+  declineText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  createRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#111827',
+    backgroundColor: '#f9fafb',
+  },
+  createButton: {
+    paddingHorizontal: 16,
+    justifyContent: 'center',
+    borderRadius: 10,
+    backgroundColor: '#6366f1',
+  },
+  createButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
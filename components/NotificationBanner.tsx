@@ -0,0 +1,80 @@
+import React from 'react';
+import { StyleSheet, Text, View, TouchableOpacity } from 'react-native';
+import { AppNotification } from '../hooks/useNotifications';
+
+interface NotificationBannerProps {
+  notifications: AppNotification[];
+  onView: (notification: AppNotification) => void;
+  onDismiss: (notification: AppNotification) => void;
+}
+
+const describe = (notification: AppNotification) =>
+  `${notification.actor_name || 'Someone'} assigned you "${
+    notification.task_title
+  }"`;
+
+// Shows the newest unread notification, one at a time
+export const NotificationBanner: React.FC<NotificationBannerProps> = ({
+  notifications,
+  onView,
+  onDismiss,
+}) => {
+  const [latest] = notifications;
+  if (!latest) return null;
+
+  return (
+    <View style={styles.banner} testID="notification-banner">
+      <Text style={styles.text} numberOfLines={2}>
+        {describe(latest)}
+        {notifications.length > 1 && (
+          <Text style={styles.more}> +{notifications.length - 1} more</Text>
+        )}
+      </Text>
+      <TouchableOpacity
+        onPress={() => onDismiss(latest)}
+        testID="notification-dismiss-button"
+      >
+        <Text style={styles.dismissText}>Dismiss</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        onPress={() => onView(latest)}
+        testID="notification-view-button"
+      >
+        <Text style={styles.viewText}>View</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginHorizontal: 20,
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#eef2ff',
+    borderWidth: 1,
+    borderColor: '#c7d2fe',
+  },
+  text: {
+    flex: 1,
+    fontSize: 14,
+    color: '#3730a3',
+  },
+  more: {
+    color: '#6366f1',
+  },
+  dismissText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  viewText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4f46e5',
+  },
+});
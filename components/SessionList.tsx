@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {
+  DeviceSession,
+  describeDevice,
+  listSessions,
+  revokeOtherSessions,
+  revokeSession,
+} from '../lib/sessions';
+
+// Devices signed in to the account, each of which can be signed out
+export const SessionList: React.FC = () => {
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadSessions = async () => {
+    try {
+      setSessions(await listSessions());
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to load devices');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const confirmRevoke = (message: string, revoke: () => Promise<void>) => {
+    Alert.alert('Sign Out Device', message, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Sign Out',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await revoke();
+            loadSessions();
+          } catch (error: any) {
+            Alert.alert('Error', error.message || 'Failed to sign out device');
+          }
+        },
+      },
+    ]);
+  };
+
+  if (isLoading) {
+    return <ActivityIndicator color="#6366f1" />;
+  }
+
+  const others = sessions.filter(session => !session.is_current);
+
+  return (
+    <View testID="session-list">
+      {sessions.map(session => (
+        <View
+          key={session.id}
+          style={styles.row}
+          testID={`session-${session.id}`}
+        >
+          <View style={styles.rowContent}>
+            <Text style={styles.rowTitle}>
+              {describeDevice(session.user_agent)}
+            </Text>
+            <Text style={styles.rowSubtitle}>
+              {session.is_current
+                ? 'This device'
+                : `Last active ${new Date(
+                    session.last_active_at,
+                  ).toLocaleDateString()}`}
+              {session.ip ? ` · ${session.ip}` : ''}
+            </Text>
+          </View>
+          {!session.is_current && (
+            <TouchableOpacity
+              onPress={() =>
+                confirmRevoke(
+                  `${describeDevice(
+                    session.user_agent,
+                  )} will be signed out within the hour.`,
+                  () => revokeSession(session.id),
+                )
+              }
+              testID={`session-revoke-button-${session.id}`}
+            >
+              <Text style={styles.revokeText}>Sign Out</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+      {others.length > 1 && (
+        <TouchableOpacity
+          style={styles.revokeAllButton}
+          onPress={() =>
+            confirmRevoke(
+              'Every other device will be signed out within the hour.',
+              revokeOtherSessions,
+            )
+          }
+          testID="session-revoke-others-button"
+        >
+          <Text style={styles.revokeText}>Sign Out All Other Devices</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  rowContent: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  rowSubtitle: {
+    marginTop: 2,
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  revokeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#dc2626',
+  },
+  revokeAllButton: {
+    paddingVertical: 14,
+    marginBottom: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#fecaca',
+  },
+});
@@ -0,0 +1,300 @@
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+} from 'react-native';
+import { Subtask, SubtaskFields } from '../hooks/useSubtasks';
+
+interface SubtaskRowProps {
+  subtask: Subtask;
+  isFirst: boolean;
+  isLast: boolean;
+  onToggle: () => void;
+  onRename: (title: string) => void;
+  onMove: (direction: -1 | 1) => void;
+  onDelete: () => void;
+}
+
+const SubtaskRow: React.FC<SubtaskRowProps> = ({
+  subtask,
+  isFirst,
+  isLast,
+  onToggle,
+  onRename,
+  onMove,
+  onDelete,
+}) => {
+  const [title, setTitle] = useState(subtask.title);
+
+  useEffect(() => {
+    setTitle(subtask.title);
+  }, [subtask.title]);
+
+  const commitTitle = () => {
+    const next = title.trim();
+    if (!next) {
+      setTitle(subtask.title);
+    } else if (next !== subtask.title) {
+      onRename(next);
+    }
+  };
+
+  return (
+    <View style={styles.row} testID={`subtask-${subtask.id}`}>
+      <TouchableOpacity
+        style={[styles.checkbox, subtask.is_done && styles.checkboxChecked]}
+        onPress={onToggle}
+        testID={`subtask-toggle-${subtask.id}`}
+      >
+        {subtask.is_done && <Text style={styles.checkboxMark}>✓</Text>}
+      </TouchableOpacity>
+      <TextInput
+        style={[styles.rowInput, subtask.is_done && styles.rowInputDone]}
+        value={title}
+        onChangeText={setTitle}
+        onSubmitEditing={commitTitle}
+        onBlur={commitTitle}
+        testID={`subtask-title-${subtask.id}`}
+      />
+      <TouchableOpacity
+        style={styles.iconButton}
+        onPress={() => onMove(-1)}
+        disabled={isFirst}
+        testID={`subtask-up-${subtask.id}`}
+      >
+        <Text style={[styles.iconText, isFirst && styles.iconTextDisabled]}>
+          ↑
+        </Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.iconButton}
+        onPress={() => onMove(1)}
+        disabled={isLast}
+        testID={`subtask-down-${subtask.id}`}
+      >
+        <Text style={[styles.iconText, isLast && styles.iconTextDisabled]}>
+          ↓
+        </Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.iconButton}
+        onPress={onDelete}
+        testID={`subtask-delete-${subtask.id}`}
+      >
+        <Text style={[styles.iconText, styles.deleteText]}>✕</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+interface SubtaskListProps {
+  taskId: string;
+  subtasks: Subtask[];
+  // False for tasks created offline that haven't reached the server yet
+  canEdit: boolean;
+  // Lists the steps without any controls, e.g. for viewers of a shared list
+  readOnly?: boolean;
+  onAdd: (title: string) => Promise<{ success: boolean; error?: string }>;
+  onUpdate: (id: string, fields: SubtaskFields) => void;
+  onToggle: (id: string) => void;
+  onMove: (id: string, direction: -1 | 1) => void;
+  onDelete: (id: string) => void;
+}
+
+export const SubtaskList: React.FC<SubtaskListProps> = ({
+  taskId,
+  subtasks,
+  canEdit,
+  readOnly = false,
+  onAdd,
+  onUpdate,
+  onToggle,
+  onMove,
+  onDelete,
+}) => {
+  const [newTitle, setNewTitle] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  const handleAdd = async () => {
+    const title = newTitle.trim();
+    if (!title || isAdding) return;
+
+    setIsAdding(true);
+    const result = await onAdd(title);
+    setIsAdding(false);
+    if (result.success) setNewTitle('');
+  };
+
+  if (readOnly) {
+    return (
+      <View style={styles.container} testID={`subtask-list-${taskId}`}>
+        {subtasks.length === 0 && (
+          <Text style={styles.hint}>No steps yet.</Text>
+        )}
+        {subtasks.map(subtask => (
+          <View
+            key={subtask.id}
+            style={styles.row}
+            testID={`subtask-${subtask.id}`}
+          >
+            <View
+              style={[
+                styles.checkbox,
+                subtask.is_done && styles.checkboxChecked,
+              ]}
+            >
+              {subtask.is_done && <Text style={styles.checkboxMark}>✓</Text>}
+            </View>
+            <Text
+              style={[styles.rowInput, subtask.is_done && styles.rowInputDone]}
+            >
+              {subtask.title}
+            </Text>
+          </View>
+        ))}
+      </View>
+    );
+  }
+
+  if (!canEdit) {
+    return (
+      <View style={styles.container} testID={`subtask-list-${taskId}`}>
+        <Text style={styles.hint}>
+          Checklists are available once this task has synced.
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container} testID={`subtask-list-${taskId}`}>
+      {subtasks.map((subtask, index) => (
+        <SubtaskRow
+          key={subtask.id}
+          subtask={subtask}
+          isFirst={index === 0}
+          isLast={index === subtasks.length - 1}
+          onToggle={() => onToggle(subtask.id)}
+          onRename={title => onUpdate(subtask.id, { title })}
+          onMove={direction => onMove(subtask.id, direction)}
+          onDelete={() => onDelete(subtask.id)}
+        />
+      ))}
+      <View style={styles.addRow}>
+        <TextInput
+          style={styles.addInput}
+          placeholder="Add a step"
+          placeholderTextColor="#999"
+          value={newTitle}
+          onChangeText={setNewTitle}
+          onSubmitEditing={handleAdd}
+          returnKeyType="done"
+          testID={`subtask-input-${taskId}`}
+        />
+        <TouchableOpacity
+          style={[styles.addButton, isAdding && styles.addButtonDisabled]}
+          onPress={handleAdd}
+          disabled={isAdding}
+          testID={`subtask-add-button-${taskId}`}
+        >
+          <Text style={styles.addButtonText}>Add</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f3f4f6',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#9ca3af',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: '#d1d5db',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  checkboxChecked: {
+    borderColor: '#6366f1',
+    backgroundColor: '#6366f1',
+  },
+  checkboxMark: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  rowInput: {
+    flex: 1,
+    fontSize: 15,
+    color: '#111827',
+    paddingVertical: 4,
+  },
+  rowInputDone: {
+    color: '#9ca3af',
+    textDecorationLine: 'line-through',
+  },
+  iconButton: {
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+  },
+  iconText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  iconTextDisabled: {
+    color: '#e5e7eb',
+  },
+  deleteText: {
+    color: '#dc2626',
+  },
+  addRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 4,
+  },
+  addInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#111827',
+    backgroundColor: '#f9fafb',
+  },
+  addButton: {
+    paddingHorizontal: 16,
+    justifyContent: 'center',
+    borderRadius: 10,
+    backgroundColor: '#6366f1',
+  },
+  addButtonDisabled: {
+    opacity: 0.6,
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,143 @@
+import { useEffect, useRef, useState } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import {
+  AppLockSettings,
+  DEFAULT_LOCK_SETTINGS,
+  authenticate,
+  createLockEntry,
+  isDeviceAuthAvailable,
+  loadLockSettings,
+  removeLockEntry,
+  saveLockSettings,
+} from '../lib/appLock';
+
+const UNLOCK_PROMPT = 'Unlock your tasks';
+
+/**
+ * Optional Face ID / fingerprint lock, with the device passcode as a
+ * fallback. Locks on cold start and after the app has spent longer than
+ * the chosen timeout in the background.
+ *
+ * `userId` is undefined while the session is still being restored, and
+ * null when signed out.
+ */
+export const useAppLock = (userId: string | null | undefined) => {
+  const [settings, setSettings] = useState<AppLockSettings>(
+    DEFAULT_LOCK_SETTINGS,
+  );
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isLocked, setIsLocked] = useState(false);
+  const [appState, setAppState] = useState<AppStateStatus>(
+    AppState.currentState,
+  );
+
+  // Only a restored session locks straight away, not a fresh sign-in
+  const isColdStartRef = useRef(true);
+  const backgroundedAtRef = useRef<number | null>(null);
+  const hasPromptedRef = useRef(false);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  useEffect(() => {
+    if (userId === undefined) return;
+    const isColdStart = isColdStartRef.current;
+    isColdStartRef.current = false;
+
+    if (!userId) {
+      setSettings(DEFAULT_LOCK_SETTINGS);
+      setIsLocked(false);
+      setIsLoaded(true);
+      return;
+    }
+
+    loadLockSettings(userId)
+      .then(loaded => {
+        setSettings(loaded);
+        setIsLocked(isColdStart && loaded.enabled);
+      })
+      .catch(err => console.error('Error loading app lock settings:', err))
+      .finally(() => setIsLoaded(true));
+  }, [userId]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', nextState => {
+      setAppState(nextState);
+      if (!settingsRef.current.enabled) return;
+
+      if (nextState === 'background') {
+        backgroundedAtRef.current = Date.now();
+      } else if (nextState === 'active' && backgroundedAtRef.current) {
+        const away = Date.now() - backgroundedAtRef.current;
+        backgroundedAtRef.current = null;
+        if (away >= settingsRef.current.timeoutSeconds * 1000) {
+          setIsLocked(true);
+        }
+      }
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, []);
+
+  const unlock = async () => {
+    if (await authenticate(UNLOCK_PROMPT)) {
+      setIsLocked(false);
+    }
+  };
+
+  // Ask once as soon as the lock shows, so most unlocks are a single glance.
+  // The prompt itself makes the app inactive, so don't repeat on return.
+  useEffect(() => {
+    if (!isLocked) {
+      hasPromptedRef.current = false;
+    } else if (appState === 'active' && !hasPromptedRef.current) {
+      hasPromptedRef.current = true;
+      unlock();
+    }
+  }, [isLocked, appState]);
+
+  const updateSettings = async (changes: Partial<AppLockSettings>) => {
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    try {
+      const next = { ...settings, ...changes };
+
+      if (next.enabled && !settings.enabled) {
+        if (!(await isDeviceAuthAvailable())) {
+          throw new Error(
+            'Set up Face ID, fingerprint or a device passcode to use app lock',
+          );
+        }
+        await createLockEntry();
+      } else if (!next.enabled && settings.enabled) {
+        // Turning the lock off needs the same check as unlocking
+        if (!(await authenticate('Turn off app lock'))) {
+          return { success: false };
+        }
+        await removeLockEntry();
+      }
+
+      await saveLockSettings(userId, next);
+      setSettings(next);
+      return { success: true };
+    } catch (err: any) {
+      return {
+        success: false,
+        error: err.message || 'Failed to update app lock',
+      };
+    }
+  };
+
+  return {
+    settings,
+    isLoaded,
+    isLocked,
+    // Also hides the content in the app switcher while the lock is on
+    isObscured: isLocked || (settings.enabled && appState !== 'active'),
+    unlock,
+    updateSettings,
+  };
+};
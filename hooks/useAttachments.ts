@@ -0,0 +1,281 @@
+import { useEffect, useEffectEvent, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import { Upload } from 'tus-js-client';
+import { supabase } from '../lib/supabase';
+import { isLocalId } from '../lib/taskStore';
+import { ATTACHMENT_BUCKET } from '../lib/storage';
+import {
+  Attachment,
+  PendingUpload,
+  PickedFile,
+  createPendingUpload,
+  isImage,
+  loadPendingUploads,
+  removeOrphanedFiles,
+  saveAttachment,
+  savePendingUploads,
+  signAttachmentUrls,
+  startUpload,
+} from '../lib/attachments';
+import { useAuth } from './useAuth';
+
+const byCreatedAt = (a: Attachment, b: Attachment) =>
+  (a.created_at ?? '').localeCompare(b.created_at ?? '');
+
+/**
+ * Files attached to the tasks in `useItems`, keyed by task id, with signed
+ * links for showing them. Uploads are resumable: they're saved on the device
+ * and picked up again after the app comes back to the foreground or is
+ * restarted.
+ */
+export const useAttachments = () => {
+  const { user, isMfaRequired } = useAuth();
+  // Uploads only run once any second factor has been verified
+  const activeUserId = user && isMfaRequired === false ? user.id : null;
+  const [attachments, setAttachments] = useState<Record<string, Attachment[]>>(
+    {},
+  );
+  // Signed links, by storage path
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Task ids already fetched (or being fetched), so each is loaded once
+  const loadedRef = useRef<Set<string>>(new Set());
+  const attachmentsRef = useRef<Record<string, Attachment[]>>({});
+  const uploadsRef = useRef<PendingUpload[]>([]);
+  // Uploads running right now, by pending upload id
+  const activeRef = useRef<Map<string, Upload>>(new Map());
+  const userIdRef = useRef<string | null>(null);
+
+  const setList = (taskId: string, list: Attachment[]) => {
+    attachmentsRef.current = {
+      ...attachmentsRef.current,
+      [taskId]: [...list].sort(byCreatedAt),
+    };
+    setAttachments(attachmentsRef.current);
+  };
+
+  const signUrls = async (list: Attachment[]) => {
+    try {
+      const signed = await signAttachmentUrls(list);
+      setUrls(prev => ({ ...prev, ...signed }));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load attachments');
+    }
+  };
+
+  // Progress is only kept in memory; the rest survives a restart
+  const setUploadList = (list: PendingUpload[], persist = true) => {
+    uploadsRef.current = list;
+    setUploads(list);
+    if (persist && userIdRef.current) {
+      savePendingUploads(userIdRef.current, list).catch(err =>
+        console.error('Error saving pending uploads:', err),
+      );
+    }
+  };
+
+  const patchUpload = (
+    id: string,
+    fields: Partial<PendingUpload>,
+    persist = true,
+  ) =>
+    setUploadList(
+      uploadsRef.current.map(upload =>
+        upload.id === id ? { ...upload, ...fields } : upload,
+      ),
+      persist,
+    );
+
+  const dropUpload = (id: string) => {
+    activeRef.current.get(id)?.abort();
+    activeRef.current.delete(id);
+    setUploadList(uploadsRef.current.filter(upload => upload.id !== id));
+  };
+
+  const runUpload = (pending: PendingUpload) => {
+    if (activeRef.current.has(pending.id)) return;
+    const userId = userIdRef.current;
+    patchUpload(pending.id, { error: undefined }, false);
+
+    const upload = startUpload(pending, {
+      onUploadUrl: uploadUrl => patchUpload(pending.id, { uploadUrl }),
+      onProgress: progress => patchUpload(pending.id, { progress }, false),
+      onSuccess: async () => {
+        activeRef.current.delete(pending.id);
+        // Signed out while the last chunk was sent
+        if (userIdRef.current !== userId) return;
+        try {
+          const attachment = await saveAttachment(pending);
+          setList(pending.taskId, [
+            ...(attachmentsRef.current[pending.taskId] || []),
+            attachment,
+          ]);
+          signUrls([attachment]);
+          dropUpload(pending.id);
+        } catch (err: any) {
+          patchUpload(pending.id, {
+            error: err.message || 'Failed to save attachment',
+          });
+        }
+      },
+      // Retries are used up; tried again when the app is next foregrounded
+      onError: err => {
+        activeRef.current.delete(pending.id);
+        patchUpload(pending.id, { error: err.message || 'Upload failed' });
+      },
+    });
+    activeRef.current.set(pending.id, upload);
+  };
+
+  const resumeUploads = () =>
+    uploadsRef.current
+      .filter(upload => !activeRef.current.has(upload.id))
+      .forEach(runUpload);
+
+  const onResume = useEffectEvent(() => resumeUploads());
+
+  // Uploads belong to the user who started them
+  useEffect(() => {
+    activeRef.current.forEach(upload => upload.abort());
+    activeRef.current = new Map();
+    userIdRef.current = activeUserId;
+    loadedRef.current = new Set();
+    attachmentsRef.current = {};
+    setAttachments({});
+    setUrls({});
+    setUploadList([], false);
+    setError(null);
+    if (!activeUserId) return;
+
+    removeOrphanedFiles().then(({ error: cleanupError }) => {
+      if (cleanupError) {
+        console.error('Error removing purged attachments:', cleanupError);
+      }
+    });
+    loadPendingUploads(activeUserId).then(saved => {
+      if (userIdRef.current !== activeUserId) return;
+      setUploadList(saved, false);
+      onResume();
+    });
+  }, [activeUserId]);
+
+  // Requests stall while the app is in the background
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'active' && userIdRef.current) {
+        onResume();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  /**
+   * Fetches attachments for tasks we haven't seen yet. Tasks that only exist
+   * on this device have nothing on the server, so they are skipped.
+   */
+  const loadAttachments = async (taskIds: string[], force = false) => {
+    const ids = taskIds.filter(
+      id => !isLocalId(id) && (force || !loadedRef.current.has(id)),
+    );
+    if (ids.length === 0) return;
+    ids.forEach(id => loadedRef.current.add(id));
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('task_attachments')
+        .select('*')
+        .in('task_id', ids);
+
+      if (fetchError) throw fetchError;
+
+      const grouped: Record<string, Attachment[]> = {};
+      ids.forEach(id => {
+        grouped[id] = [];
+      });
+      (data || []).forEach((attachment: Attachment) => {
+        grouped[attachment.task_id].push(attachment);
+      });
+      Object.keys(grouped).forEach(id => grouped[id].sort(byCreatedAt));
+      attachmentsRef.current = { ...attachmentsRef.current, ...grouped };
+      setAttachments(attachmentsRef.current);
+      await signUrls(data || []);
+    } catch (err: any) {
+      ids.forEach(id => loadedRef.current.delete(id));
+      setError(err.message || 'Failed to fetch attachments');
+    }
+  };
+
+  const imagesFor = (taskId: string) =>
+    (attachments[taskId] || []).filter(isImage);
+
+  const uploadsFor = (taskId: string) =>
+    uploads.filter(upload => upload.taskId === taskId);
+
+  // Starts uploading straight away; progress shows in `uploads`
+  const addAttachment = async (taskId: string, file: PickedFile) => {
+    try {
+      setError(null);
+      if (!userIdRef.current) throw new Error('User not authenticated');
+      if (isLocalId(taskId)) {
+        throw new Error('Wait for the task to sync before attaching files');
+      }
+
+      const pending = createPendingUpload(userIdRef.current, taskId, file);
+      setUploadList([...uploadsRef.current, pending]);
+      runUpload(pending);
+      return { success: true };
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to attach file';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  // Stops an upload (or gives up on a failed one)
+  const cancelUpload = (id: string) => dropUpload(id);
+
+  const deleteAttachment = async (attachment: Attachment) => {
+    const previous = attachmentsRef.current[attachment.task_id] || [];
+    try {
+      setError(null);
+      setList(
+        attachment.task_id,
+        previous.filter(a => a.id !== attachment.id),
+      );
+
+      // The file first, so a failure doesn't leave it behind unlisted
+      const { error: removeError } = await supabase.storage
+        .from(ATTACHMENT_BUCKET)
+        .remove([attachment.path]);
+      if (removeError) throw removeError;
+
+      const { error: deleteError } = await supabase
+        .from('task_attachments')
+        .delete()
+        .eq('id', attachment.id);
+
+      if (deleteError) throw deleteError;
+      return { success: true };
+    } catch (err: any) {
+      setList(attachment.task_id, previous);
+      const errorMessage = err.message || 'Failed to delete attachment';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  return {
+    attachments,
+    urls,
+    uploads,
+    error,
+    loadAttachments,
+    imagesFor,
+    uploadsFor,
+    addAttachment,
+    cancelUpload,
+    deleteAttachment,
+  };
+};
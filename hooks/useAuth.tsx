@@ -0,0 +1,133 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+import { clearSessionStorage, supabase } from '../lib/supabase';
+import { AUTH_REDIRECT_URL } from '../lib/authLinks';
+import { needsMfaChallenge } from '../lib/mfa';
+
+interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  // True until the stored session has been restored
+  isLoading: boolean;
+  // Whether the session still needs its second factor; null when signed out
+  // or not yet checked
+  isMfaRequired: boolean | null;
+  signIn: (
+    email: string,
+    password: string,
+  ) => ReturnType<typeof supabase.auth.signInWithPassword>;
+  signUp: (
+    email: string,
+    password: string,
+  ) => ReturnType<typeof supabase.auth.signUp>;
+  signOut: () => Promise<{ success: boolean; error?: string }>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+/**
+ * Owns the Supabase session for the whole app. It is the only place that
+ * listens to auth events: token refreshes and profile updates just replace
+ * the session, while sign-in and MFA re-check the assurance level.
+ */
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isMfaRequired, setIsMfaRequired] = useState<boolean | null>(null);
+
+  const checkAssurance = async () => {
+    try {
+      setIsMfaRequired(await needsMfaChallenge());
+    } catch (err) {
+      console.error('Error checking MFA:', err);
+      setIsMfaRequired(true);
+    }
+  };
+
+  useEffect(() => {
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((event, next) => {
+      setSession(next);
+
+      if (!next) {
+        setIsMfaRequired(null);
+        setIsLoading(false);
+        return;
+      }
+
+      if (
+        event === 'INITIAL_SESSION' ||
+        event === 'SIGNED_IN' ||
+        event === 'MFA_CHALLENGE_VERIFIED'
+      ) {
+        // Supabase calls made inside this callback wait for it to return
+        setTimeout(() => {
+          checkAssurance().finally(() => setIsLoading(false));
+        }, 0);
+      }
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  // Resolves once the assurance level is known, so callers can keep their
+  // spinner up until the app moves on
+  const signIn = async (email: string, password: string) => {
+    const result = await supabase.auth.signInWithPassword({ email, password });
+    if (result.data.session) {
+      await checkAssurance();
+    }
+    return result;
+  };
+
+  const signUp = (email: string, password: string) =>
+    supabase.auth.signUp({
+      email,
+      password,
+      options: { emailRedirectTo: AUTH_REDIRECT_URL },
+    });
+
+  const signOut = async () => {
+    // Leave the signed-in screens straight away, even if the call is slow
+    setSession(null);
+    setIsMfaRequired(null);
+    try {
+      const { error } = await supabase.auth.signOut();
+      // Wipe the stored session even if the server call failed
+      await clearSessionStorage();
+      if (error) throw error;
+      return { success: true };
+    } catch (err: any) {
+      return { success: false, error: err.message || 'Failed to logout' };
+    }
+  };
+
+  return (
+    <AuthContext.Provider
+      value={{
+        session,
+        user: session?.user ?? null,
+        isLoading,
+        isMfaRequired,
+        signIn,
+        signUp,
+        signOut,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used inside AuthProvider');
+  }
+  return context;
+};
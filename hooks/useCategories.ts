@@ -0,0 +1,260 @@
+import { useMemo, useRef, useState } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+
+export interface Category {
+  id: string;
+  name: string;
+  // Hex color, e.g. #6366f1
+  color: string;
+  // A single emoji
+  icon: string;
+  user_id?: string;
+  created_at?: string;
+}
+
+export type CategoryFields = Pick<Category, 'name' | 'color' | 'icon'>;
+
+export const CATEGORY_COLORS = [
+  '#6366f1',
+  '#0ea5e9',
+  '#10b981',
+  '#f59e0b',
+  '#ef4444',
+  '#ec4899',
+  '#8b5cf6',
+  '#6b7280',
+];
+
+export const CATEGORY_ICONS = ['📁', '💼', '🏠', '🛒', '💪', '📚', '✈️', '💡'];
+
+// Cached so task cards can still show category names offline
+const cacheKey = (userId: string) => `categories:cache:${userId}`;
+
+const loadCachedCategories = async (userId: string): Promise<Category[]> => {
+  try {
+    const cached = await AsyncStorage.getItem(cacheKey(userId));
+    return cached ? JSON.parse(cached) : [];
+  } catch (err) {
+    console.error('Error reading cached categories:', err);
+    return [];
+  }
+};
+
+const byName = (a: Category, b: Category) => a.name.localeCompare(b.name);
+
+const sameName = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const useCategories = () => {
+  const { user, isMfaRequired } = useAuth();
+  // Categories only load once any second factor has been verified
+  const activeUserId = user && isMfaRequired === false ? user.id : null;
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const categoriesRef = useRef<Category[]>([]);
+  const activeUserIdRef = useRef(activeUserId);
+  activeUserIdRef.current = activeUserId;
+
+  const categoriesById = useMemo(
+    () => new Map(categories.map(category => [category.id, category])),
+    [categories],
+  );
+
+  const requireUserId = () => {
+    if (!activeUserIdRef.current) {
+      throw new Error('User not authenticated');
+    }
+    return activeUserIdRef.current;
+  };
+
+  const showCategories = async (userId: string, next: Category[]) => {
+    categoriesRef.current = [...next].sort(byName);
+    setCategories(categoriesRef.current);
+    await AsyncStorage.setItem(
+      cacheKey(userId),
+      JSON.stringify(categoriesRef.current),
+    );
+  };
+
+  const fetchCategories = async () => {
+    let userId: string | null = null;
+    try {
+      setLoading(true);
+      setError(null);
+      userId = requireUserId();
+
+      const { data, error: fetchError } = await supabase
+        .from('categories')
+        .select('*')
+        .eq('user_id', userId)
+        .order('name', { ascending: true });
+
+      if (fetchError) throw fetchError;
+      await showCategories(userId, data || []);
+    } catch (err: any) {
+      // Fall back to the last list we saw, e.g. when offline
+      const cached = userId ? await loadCachedCategories(userId) : [];
+      if (cached.length > 0) {
+        categoriesRef.current = cached;
+        setCategories(cached);
+      } else {
+        setError(err.message || 'Failed to fetch categories');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Creates a category, or returns the existing one when the name only
+   * differs in case, so "Work" and "work" can't both exist.
+   */
+  const createCategory = async (fields: CategoryFields) => {
+    const existing = categoriesRef.current.find(category =>
+      sameName(category.name, fields.name),
+    );
+    if (existing) return { success: true, data: existing };
+
+    try {
+      setError(null);
+      const userId = requireUserId();
+
+      const { data, error: insertError } = await supabase
+        .from('categories')
+        .insert([{ ...fields, name: fields.name.trim(), user_id: userId }])
+        .select()
+        .single();
+
+      if (insertError) throw insertError;
+
+      await showCategories(userId, [...categoriesRef.current, data]);
+      return { success: true, data: data as Category };
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to create category';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  // Tasks point at the category id, so a rename shows up on all of them
+  const updateCategory = async (
+    id: string,
+    fields: Partial<CategoryFields>,
+  ) => {
+    if (
+      fields.name &&
+      categoriesRef.current.some(
+        category => category.id !== id && sameName(category.name, fields.name!),
+      )
+    ) {
+      const errorMessage = `A category named "${fields.name.trim()}" already exists`;
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+
+    try {
+      setError(null);
+      const userId = requireUserId();
+
+      const { data, error: updateError } = await supabase
+        .from('categories')
+        .update(fields.name ? { ...fields, name: fields.name.trim() } : fields)
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (updateError) throw updateError;
+
+      await showCategories(
+        userId,
+        categoriesRef.current.map(category =>
+          category.id === id ? data : category,
+        ),
+      );
+      return { success: true, data: data as Category };
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to update category';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  /**
+   * Moves every task from `sourceId` to `targetId` and deletes the source,
+   * in one transaction on the server. Callers should refetch their tasks.
+   */
+  const mergeCategories = async (sourceId: string, targetId: string) => {
+    try {
+      setError(null);
+      const userId = requireUserId();
+
+      const { error: mergeError } = await supabase.rpc('merge_categories', {
+        source_id: sourceId,
+        target_id: targetId,
+      });
+
+      if (mergeError) throw mergeError;
+
+      await showCategories(
+        userId,
+        categoriesRef.current.filter(category => category.id !== sourceId),
+      );
+      return { success: true };
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to merge categories';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  // Tasks in a deleted category are left uncategorized
+  const deleteCategory = async (id: string) => {
+    try {
+      setError(null);
+      const userId = requireUserId();
+
+      const { error: deleteError } = await supabase
+        .from('categories')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId);
+
+      if (deleteError) throw deleteError;
+
+      await showCategories(
+        userId,
+        categoriesRef.current.filter(category => category.id !== id),
+      );
+      return { success: true };
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to delete category';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  // Clear categories (useful for logout)
+  const clearCategories = () => {
+    categoriesRef.current = [];
+    setCategories([]);
+    setError(null);
+  };
+
+  return {
+    categories,
+    categoriesById,
+    loading,
+    error,
+    fetchCategories,
+    createCategory,
+    updateCategory,
+    mergeCategories,
+    deleteCategory,
+    clearCategories,
+  };
+};
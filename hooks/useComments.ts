@@ -0,0 +1,158 @@
+import { useEffect, useEffectEvent, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+
+export interface TaskComment {
+  id: string;
+  task_id: string;
+  user_id: string;
+  // The comment this replies to; replies are one level deep
+  parent_id: string | null;
+  body: string;
+  created_at: string;
+}
+
+export interface CommentThread {
+  comment: TaskComment;
+  replies: TaskComment[];
+}
+
+const byCreatedAt = (a: TaskComment, b: TaskComment) =>
+  a.created_at.localeCompare(b.created_at);
+
+// Groups replies under the comment they answer, oldest first
+export const threadComments = (comments: TaskComment[]): CommentThread[] => {
+  const sorted = [...comments].sort(byCreatedAt);
+  const ids = new Set(sorted.map(comment => comment.id));
+  // A reply whose parent is gone is shown on its own
+  const isRoot = (comment: TaskComment) =>
+    !comment.parent_id || !ids.has(comment.parent_id);
+  return sorted.filter(isRoot).map(comment => ({
+    comment,
+    replies: sorted.filter(reply => reply.parent_id === comment.id),
+  }));
+};
+
+/**
+ * The discussion on one task, kept up to date over realtime while it's open.
+ * Anyone who can see the task can comment.
+ */
+export const useComments = (taskId: string) => {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Realtime echoes our own inserts, so merge by id
+  const upsertComment = (comment: TaskComment) =>
+    setComments(prev => [...prev.filter(c => c.id !== comment.id), comment]);
+
+  const removeComment = (id: string) =>
+    setComments(prev => prev.filter(c => c.id !== id && c.parent_id !== id));
+
+  const fetchComments = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const { data, error: fetchError } = await supabase
+        .from('task_comments')
+        .select('*')
+        .eq('task_id', taskId)
+        .order('created_at', { ascending: true });
+
+      if (fetchError) throw fetchError;
+      setComments(data || []);
+    } catch (err: any) {
+      setError(err.message || 'Failed to fetch comments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onTaskChange = useEffectEvent(() => fetchComments());
+
+  useEffect(() => {
+    setComments([]);
+    onTaskChange();
+
+    const channel = supabase
+      .channel(`comments:${taskId}`)
+      .on<TaskComment>(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'task_comments',
+          filter: `task_id=eq.${taskId}`,
+        },
+        payload => {
+          if (payload.eventType === 'DELETE') {
+            if (payload.old.id) removeComment(payload.old.id);
+          } else {
+            upsertComment(payload.new);
+          }
+        },
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [taskId]);
+
+  const addComment = async (body: string, parentId: string | null = null) => {
+    try {
+      setError(null);
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error: insertError } = await supabase
+        .from('task_comments')
+        .insert([
+          {
+            task_id: taskId,
+            user_id: user.id,
+            parent_id: parentId,
+            body: body.trim(),
+          },
+        ])
+        .select()
+        .single();
+
+      if (insertError) throw insertError;
+      upsertComment(data);
+      return { success: true };
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to add comment';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  // Authors only; replies go with it
+  const deleteComment = async (id: string) => {
+    try {
+      setError(null);
+      const { error: deleteError } = await supabase
+        .from('task_comments')
+        .delete()
+        .eq('id', id);
+
+      if (deleteError) throw deleteError;
+      removeComment(id);
+      return { success: true };
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to delete comment';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  return {
+    comments,
+    threads: threadComments(comments),
+    loading,
+    error,
+    addComment,
+    deleteComment,
+  };
+};
@@ -1,72 +1,561 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useEffectEvent, useMemo, useRef } from 'react';
+import NetInfo from '@react-native-community/netinfo';
+import type {
+  RealtimeChannel,
+  RealtimePostgresChangesPayload,
+} from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import {
+  PendingMutation,
+  applyMutations,
+  createLocalId,
+  enqueueMutation,
+  loadCachedItems,
+  loadQueue,
+  mergeItems,
+  rebaseQueue,
+  saveQueue,
+  updateCachedItems,
+} from '../lib/taskStore';
+import {
+  cancelReminders,
+  pruneReminders,
+  syncReminders,
+} from '../lib/reminders';
+import {
+  ASSIGNED_TO_ME,
+  DEFAULT_QUERY,
+  TaskQuery,
+  TaskStatus,
+  PAGE_SIZE,
+  filterItems,
+  hasFilters,
+  loadSavedQuery,
+  matchesQuery,
+  saveQuery,
+  selectTasks,
+  sortItems,
+} from '../lib/taskQuery';
 
 export interface Item {
   id: string;
   title: string;
-  category: string;
+  // Id of a row in `categories`, null once its category is deleted
+  category: string | null;
   priority: string;
+  due_at?: string | null;
+  // Minutes before `due_at` to send a local notification
+  reminder_offsets?: number[] | null;
+  // New tasks start out `open`
+  status?: TaskStatus;
+  // Set while the task is `done`
+  completed_at?: string | null;
+  // Shared list the task belongs to; null for the creator's own tasks
+  list_id?: string | null;
+  // Member of the task's list who's responsible for it
+  assignee_id?: string | null;
+  // Set while the task is in the Trash
+  deleted_at?: string | null;
+  // Who created the task
   user_id?: string;
   created_at?: string;
+  updated_at?: string;
 }
 
-export const useItems = () => {
+export type ItemFields = Pick<
+  Item,
+  | 'title'
+  | 'category'
+  | 'priority'
+  | 'due_at'
+  | 'reminder_offsets'
+  | 'status'
+  | 'completed_at'
+  | 'list_id'
+  | 'assignee_id'
+>;
+
+// An edit the server refused because the row changed after it was loaded
+export interface ItemConflict {
+  id: string;
+  mine: Partial<ItemFields>;
+  theirs: Item;
+  original?: Item;
+}
+
+const isConnected = async () => {
+  const state = await NetInfo.fetch();
+  return !!state.isConnected && state.isInternetReachable !== false;
+};
+
+// Failed fetches come back from supabase-js without a Postgres/PostgREST code
+const isNetworkError = (err: any) => !err?.code;
+
+const withoutKey = <T>(record: Record<string, T>, key: string) => {
+  if (!(key in record)) return record;
+  const next = { ...record };
+  delete next[key];
+  return next;
+};
+
+// How long a delete can still be undone before it is sent
+export const UNDO_WINDOW_MS = 5000;
+
+const isSameItem = (a: Item, b: Item) =>
+  (Object.keys(b) as (keyof Item)[]).every(key => a[key] === b[key]);
+
+// Tasks cached before lists existed have no `list_id`, so they're personal
+const isInList = (item: Item, listId: string | null, userId: string | null) =>
+  listId === ASSIGNED_TO_ME
+    ? item.assignee_id === userId
+    : (item.list_id ?? null) === listId;
+
+/**
+ * Tasks in `listId`, a shared list, the user's own tasks when null, or those
+ * assigned to them in any list with `ASSIGNED_TO_ME`. The cache and offline
+ * queue hold every list, so switching keeps queued edits.
+ */
+export const useItems = (listId: string | null = null) => {
+  const { user, isMfaRequired } = useAuth();
+  // Tasks only load once any second factor has been verified
+  const activeUserId = user && isMfaRequired === false ? user.id : null;
   const [items, setItems] = useState<Item[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [queue, setQueue] = useState<PendingMutation[]>([]);
+  const [isOffline, setIsOffline] = useState(false);
+  const [conflicts, setConflicts] = useState<ItemConflict[]>([]);
+  // Why the last change to an item was rolled back, keyed by item id
+  const [itemErrors, setItemErrors] = useState<Record<string, string>>({});
+  // Deleted items still inside their undo window
+  const [recentlyDeleted, setRecentlyDeleted] = useState<Item[]>([]);
+  const [query, setQueryState] = useState<TaskQuery>(DEFAULT_QUERY);
+
+  const userIdRef = useRef<string | null>(null);
+  const activeUserIdRef = useRef(activeUserId);
+  activeUserIdRef.current = activeUserId;
+  const listIdRef = useRef(listId);
+  listIdRef.current = listId;
+  // The first list is loaded along with the user, see the effects below
+  const isFirstListRef = useRef(true);
+  const queueRef = useRef<PendingMutation[]>([]);
+  const isFlushingRef = useRef(false);
+  const inFlightRef = useRef<PendingMutation | null>(null);
+  const channelRef = useRef<{
+    key: string;
+    channel: RealtimeChannel;
+  } | null>(null);
+  const queryRef = useRef<TaskQuery>(DEFAULT_QUERY);
+  const queryRestoredRef = useRef<Promise<TaskQuery> | null>(null);
+  // Last server row of the loaded pages, where the next page starts
+  const cursorRef = useRef<Item | null>(null);
+  const fetchIdRef = useRef(0);
+  const isLoadingMoreRef = useRef(false);
+  // Temporary client ids of creates that have landed, mapped to server ids
+  const serverIdsRef = useRef<Map<string, string>>(new Map());
+  const undoTimersRef = useRef<
+    Map<string, { snapshot?: Item; timer: ReturnType<typeof setTimeout> }>
+  >(new Map());
+
+  const pendingIds = useMemo(() => new Set(queue.map(m => m.id)), [queue]);
+
+  // Loads the persisted queue the first time we see a user
+  const restoreQueue = async (userId: string) => {
+    if (userIdRef.current !== userId) {
+      userIdRef.current = userId;
+      queueRef.current = await loadQueue(userId);
+      setQueue(queueRef.current);
+    }
+    return queueRef.current;
+  };
+
+  const writeQueue = async (userId: string, next: PendingMutation[]) => {
+    queueRef.current = next;
+    setQueue(next);
+    await saveQueue(userId, next);
+  };
+
+  // The saved query is read once, before the first fetch uses it
+  const restoreQuery = () => {
+    if (!queryRestoredRef.current) {
+      queryRestoredRef.current = loadSavedQuery().then(saved => {
+        queryRef.current = saved;
+        setQueryState(saved);
+        return saved;
+      });
+    }
+    return queryRestoredRef.current;
+  };
+
+  const requireUserId = () => {
+    if (!activeUserIdRef.current) {
+      throw new Error('User not authenticated');
+    }
+    return activeUserIdRef.current;
+  };
+
+  const resolveId = (id: string) => serverIdsRef.current.get(id) ?? id;
+
+  // Items waiting out their undo window stay hidden whatever the server says
+  const isAwaitingDelete = (id: string) =>
+    [...undoTimersRef.current.keys()].some(key => resolveId(key) === id);
+
+  const showItems = (list: Item[]) => {
+    setItems(
+      filterItems(
+        applyMutations(list, queueRef.current),
+        queryRef.current,
+      ).filter(
+        item =>
+          isInList(item, listIdRef.current, userIdRef.current) &&
+          !isAwaitingDelete(item.id),
+      ),
+    );
+  };
+
+  /**
+   * Loads the first page, or the page after `cursorRef` when appending.
+   * Returns false if a newer fetch started meanwhile and the page was dropped.
+   */
+  const fetchFromServer = async (userId: string, append = false) => {
+    const fetchId = append ? fetchIdRef.current : ++fetchIdRef.current;
+    const after = append ? cursorRef.current ?? undefined : undefined;
+    const fetchListId = listIdRef.current;
+
+    const { data, error: fetchError } = await selectTasks(
+      userId,
+      fetchListId,
+      queryRef.current,
+      after,
+    );
+
+    if (fetchError) throw fetchError;
+    if (fetchId !== fetchIdRef.current) return false;
+
+    const rows: Item[] = data || [];
+    const more = rows.length === PAGE_SIZE;
+    cursorRef.current = rows.length > 0 ? rows[rows.length - 1] : after ?? null;
+    setHasMore(more);
+
+    // Only a complete, unfiltered result can replace the list's cached tasks
+    await updateCachedItems(userId, cached =>
+      !append && !more && !hasFilters(queryRef.current)
+        ? [
+            ...rows,
+            ...cached.filter(item => !isInList(item, fetchListId, userId)),
+          ]
+        : mergeItems(cached, rows),
+    );
+
+    // Picks up due date changes made on other devices while we were away,
+    // and drops reminders for tasks that are gone or done
+    syncReminders(rows);
+    if (!append) {
+      pruneReminders(queueRef.current.map(m => m.id));
+    }
+
+    if (append) {
+      setItems(prev =>
+        filterItems(
+          applyMutations(mergeItems(prev, rows), queueRef.current),
+          queryRef.current,
+        ).filter(
+          item =>
+            isInList(item, fetchListId, userId) && !isAwaitingDelete(item.id),
+        ),
+      );
+    } else {
+      showItems(rows);
+    }
+    return true;
+  };
+
+  const sendMutation = (mutation: PendingMutation, userId: string) => {
+    switch (mutation.kind) {
+      case 'create':
+        return supabase
+          .from('tasks')
+          .insert([{ ...mutation.fields, user_id: userId }])
+          .select()
+          .single();
+      case 'update': {
+        // Row Level Security limits this to tasks the user may edit
+        let request = supabase
+          .from('tasks')
+          .update(mutation.fields)
+          .eq('id', mutation.id);
+
+        // Only apply the edit if nobody changed the row since it was loaded
+        if (mutation.base?.updated_at) {
+          request = request.eq('updated_at', mutation.base.updated_at);
+        }
+        return request.select().maybeSingle();
+      }
+      // Moves the task to the Trash; it's purged from there later
+      case 'delete':
+        return supabase
+          .from('tasks')
+          .update({ deleted_at: new Date().toISOString() })
+          .eq('id', mutation.id);
+    }
+  };
+
+  // Called when a guarded update matched no rows
+  const recordConflict = async (
+    userId: string,
+    mutation: Extract<PendingMutation, { kind: 'update' }>,
+  ) => {
+    const { data: theirs, error: fetchError } = await supabase
+      .from('tasks')
+      .select('*')
+      .eq('id', mutation.id)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (!theirs || theirs.deleted_at) {
+      // Deleted elsewhere, so there is nothing left to edit
+      cancelReminders(mutation.id);
+      setItems(prev => prev.filter(item => item.id !== mutation.id));
+      await updateCachedItems(userId, cached =>
+        cached.filter(item => item.id !== mutation.id),
+      );
+      return;
+    }
+
+    setConflicts(prev => [
+      ...prev.filter(c => c.id !== mutation.id),
+      {
+        id: mutation.id,
+        mine: mutation.fields,
+        theirs,
+        original: mutation.base,
+      },
+    ]);
+    setItems(prev =>
+      applyMutations(
+        prev.map(item => (item.id === theirs.id ? theirs : item)),
+        queueRef.current,
+      ),
+    );
+    await updateCachedItems(userId, cached =>
+      cached.map(item => (item.id === theirs.id ? theirs : item)),
+    );
+  };
+
+  // Shows a task as it was before a rejected change, if it still belongs in
+  // the list and filters being shown
+  const restoreSnapshot = (snapshot: Item) => {
+    setItems(prev => {
+      const rest = prev.filter(item => item.id !== snapshot.id);
+      return filterItems(
+        isInList(snapshot, listIdRef.current, userIdRef.current)
+          ? [snapshot, ...rest]
+          : rest,
+        queryRef.current,
+      );
+    });
+    syncReminders([snapshot]);
+  };
+
+  // Undoes the optimistic change of a mutation the server rejected
+  const rollback = (mutation: PendingMutation, message: string) => {
+    switch (mutation.kind) {
+      case 'create':
+        setItems(prev => prev.filter(item => item.id !== mutation.id));
+        cancelReminders(mutation.id);
+        setError(`Couldn't save "${mutation.fields.title}": ${message}`);
+        return;
+      case 'update':
+      case 'delete':
+        if (mutation.snapshot) restoreSnapshot(mutation.snapshot);
+        break;
+    }
+    setItemErrors(prev => ({ ...prev, [mutation.id]: message }));
+  };
+
+  /**
+   * Replays queued mutations in order. Stops at the first network failure so
+   * the rest stay queued for the next reconnect; mutations the server rejects
+   * are rolled back, and edits that lost a race with another device are
+   * parked in `conflicts`.
+   */
+  const flushQueue = async () => {
+    const userId = userIdRef.current;
+    if (!userId || isFlushingRef.current) return;
+    isFlushingRef.current = true;
+
+    try {
+      while (queueRef.current.length > 0 && userIdRef.current === userId) {
+        const mutation = queueRef.current[0];
+        inFlightRef.current = mutation;
+        let result;
+        try {
+          result = await sendMutation(mutation, userId);
+        } finally {
+          inFlightRef.current = null;
+        }
+        const { data, error: syncError } = result;
+        // Re-read the queue, more may have been added while we waited
+        const rest = queueRef.current.slice(1);
+
+        if (syncError) {
+          if (isNetworkError(syncError)) break;
+          rollback(mutation, syncError.message || 'Failed to sync item');
+          // Anything else queued for this item can't succeed either
+          await writeQueue(
+            userId,
+            mutation.kind === 'create'
+              ? rest.filter(m => m.id !== mutation.id)
+              : rest,
+          );
+          continue;
+        }
+
+        const row = data as Item | null;
+        if (mutation.kind === 'update' && !row) {
+          await writeQueue(
+            userId,
+            rest.filter(m => m.id !== mutation.id),
+          );
+          await recordConflict(userId, mutation);
+          continue;
+        }
+
+        if (mutation.kind === 'create' && row) {
+          serverIdsRef.current.set(mutation.id, row.id);
+          // Reminders were scheduled under the temporary id
+          cancelReminders(mutation.id).then(() => syncReminders([row]));
+        }
+        const next = row ? rebaseQueue(rest, mutation.id, row) : rest;
+        await writeQueue(userId, next);
+
+        setItemErrors(prev => withoutKey(prev, mutation.id));
+
+        if (mutation.kind === 'delete') {
+          await updateCachedItems(userId, cached =>
+            cached.filter(item => item.id !== mutation.id),
+          );
+        } else if (row) {
+          // Swap the temporary client id (or stale row) for the server's copy
+          const replace = (list: Item[]) =>
+            list
+              .filter(item => item.id !== row.id)
+              .map(item => (item.id === mutation.id ? row : item));
+          await updateCachedItems(userId, cached =>
+            mutation.kind === 'create'
+              ? [row, ...replace(cached)]
+              : replace(cached),
+          );
+          setItems(prev => applyMutations(replace(prev), next));
+        }
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to sync items');
+    } finally {
+      isFlushingRef.current = false;
+    }
+  };
+
+  /**
+   * Applies a mutation to the list straight away and queues it for the
+   * server. Syncing happens in the background, so callers don't wait on it.
+   */
+  const queueMutation = async (userId: string, mutation: PendingMutation) => {
+    await restoreQueue(userId);
+    setItems(prev => applyMutations(prev, [mutation]));
+    await writeQueue(
+      userId,
+      enqueueMutation(queueRef.current, mutation, inFlightRef.current),
+    );
+    if (await isConnected()) {
+      flushQueue();
+    }
+  };
 
   const fetchItems = async () => {
+    let userId: string | null = null;
     try {
       setLoading(true);
       setError(null);
-      
-      // Get current user ID from session
-      const { data: { session } } = await supabase.auth.getSession();
-      const userId = session?.user?.id;
 
-      if (!userId) {
-        throw new Error('User not authenticated');
-      }
+      await restoreQuery();
+      userId = requireUserId();
+      await restoreQueue(userId);
 
-      // Direct table query filtered by user_id
-      const { data, error: fetchError } = await supabase
-        .from('tasks')
-        .select('*')
-        .eq('user_id', userId)
-        .order('id', { ascending: false });
+      if (!(await isConnected())) {
+        // Offline the whole cache is already on the device, so no paging
+        setHasMore(false);
+        showItems(await loadCachedItems(userId));
+        return;
+      }
 
-      if (fetchError) throw fetchError;
-      setItems(data || []);
+      // Push local changes first so the server copy already includes them
+      await flushQueue();
+      await fetchFromServer(userId);
     } catch (err: any) {
-      setError(err.message || 'Failed to fetch items');
+      if (userId && isNetworkError(err)) {
+        setHasMore(false);
+        showItems(await loadCachedItems(userId));
+      } else {
+        setError(err.message || 'Failed to fetch items');
+      }
     } finally {
       setLoading(false);
     }
   };
 
-  const createItem = async (title: string, category: string, priority: string) => {
-    try {
-      setError(null);
-      
-      // Get current user ID from session
-      const { data: { session } } = await supabase.auth.getSession();
-      const userId = session?.user?.id;
+  const loadMore = async () => {
+    const userId = userIdRef.current;
+    if (!userId || !hasMore || loading || isLoadingMoreRef.current) return;
 
-      if (!userId) {
-        throw new Error('User not authenticated');
+    isLoadingMoreRef.current = true;
+    setLoadingMore(true);
+    try {
+      await fetchFromServer(userId, true);
+    } catch (err: any) {
+      if (!isNetworkError(err)) {
+        setError(err.message || 'Failed to load more items');
       }
+    } finally {
+      isLoadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  };
 
-      const { data, error: createError } = await supabase
-        .from('tasks')
-        .insert([{ title, category, priority, user_id: userId }])
-        .select()
-        .single();
+  // Pull-to-refresh: reloads from the first page
+  const refresh = async () => {
+    setRefreshing(true);
+    try {
+      await fetchItems();
+    } finally {
+      setRefreshing(false);
+    }
+  };
 
-      if (createError) throw createError;
-      if (data) {
-        setItems((prev) => [data, ...prev]);
-      }
-      return { success: true, data };
+  const createItem = async (fields: ItemFields) => {
+    try {
+      setError(null);
+      const userId = requireUserId();
+
+      // Tasks added from the assigned view go to the user's own tasks
+      const targetListId =
+        listIdRef.current === ASSIGNED_TO_ME ? null : listIdRef.current;
+
+      // Shown straight away under a temporary id until the insert lands
+      const mutation: PendingMutation = {
+        kind: 'create',
+        id: createLocalId(),
+        fields: { ...fields, list_id: targetListId },
+        createdAt: new Date().toISOString(),
+      };
+      await queueMutation(userId, mutation);
+      const item = applyMutations([], [mutation])[0];
+      syncReminders([item]);
+      return { success: true, data: item };
     } catch (err: any) {
       const errorMessage = err.message || 'Failed to create item';
       setError(errorMessage);
@@ -74,33 +563,66 @@ export const useItems = () => {
     }
   };
 
-  const updateItem = async (id: string, title: string, category: string, priority: string) => {
+  const updateItem = async (
+    id: string,
+    fields: Partial<ItemFields>,
+    base: Item | undefined = items.find(item => item.id === id),
+  ) => {
     try {
       setError(null);
-      
-      // Get current user ID from session
-      const { data: { session } } = await supabase.auth.getSession();
-      const userId = session?.user?.id;
+      const userId = requireUserId();
+      const snapshot = items.find(item => item.id === id);
 
-      if (!userId) {
-        throw new Error('User not authenticated');
+      await queueMutation(userId, {
+        kind: 'update',
+        id,
+        fields,
+        base,
+        snapshot,
+      });
+      if (snapshot) {
+        syncReminders([{ ...snapshot, ...fields }]);
       }
+      return { success: true };
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to update item';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  };
 
-      const { data, error: updateError } = await supabase
-        .from('tasks')
-        .update({ title, category, priority })
-        .eq('id', id)
-        .eq('user_id', userId) // Ensure user can only update their own items
-        .select()
-        .single();
-
-      if (updateError) throw updateError;
-      if (data) {
-        setItems((prev) =>
-          prev.map((item) => (item.id === id ? data : item))
-        );
+  // An offline create may have landed during the undo window
+  const toDeleteMutation = (id: string, snapshot?: Item): PendingMutation => {
+    const target = resolveId(id);
+    return {
+      kind: 'delete',
+      id: target,
+      snapshot: snapshot && { ...snapshot, id: target },
+    };
+  };
+
+  /**
+   * Moves a task between open, in progress and done. Unlike `updateItem` this
+   * isn't checked against concurrent edits: it only touches the status, so
+   * it can't overwrite anyone else's changes.
+   */
+  const setItemStatus = async (id: string, status: TaskStatus) => {
+    try {
+      setError(null);
+      const userId = requireUserId();
+      const snapshot = items.find(item => item.id === id);
+      const fields = {
+        status,
+        completed_at: status === 'done' ? new Date().toISOString() : null,
+      };
+
+      await queueMutation(userId, { kind: 'update', id, fields, snapshot });
+      // Finished tasks drop out of the default views and vice versa
+      setItems(prev => filterItems(prev, queryRef.current));
+      if (snapshot) {
+        syncReminders([{ ...snapshot, ...fields }]);
       }
-      return { success: true, data };
+      return { success: true };
     } catch (err: any) {
       const errorMessage = err.message || 'Failed to update item';
       setError(errorMessage);
@@ -108,26 +630,36 @@ export const useItems = () => {
     }
   };
 
+  /**
+   * Hides the item at once but holds the server call for `UNDO_WINDOW_MS`,
+   * during which `undoDelete` can bring it back. After that the task sits in
+   * the Trash, where it can still be restored until it's purged.
+   */
   const deleteItem = async (id: string) => {
     try {
       setError(null);
-      
-      // Get current user ID from session
-      const { data: { session } } = await supabase.auth.getSession();
-      const userId = session?.user?.id;
+      const userId = requireUserId();
+      const snapshot = items.find(item => item.id === id);
 
-      if (!userId) {
-        throw new Error('User not authenticated');
+      setItems(prev => prev.filter(item => item.id !== id));
+      if (snapshot) {
+        setRecentlyDeleted(prev => [
+          snapshot,
+          ...prev.filter(item => item.id !== id),
+        ]);
       }
 
-      const { error: deleteError } = await supabase
-        .from('tasks')
-        .delete()
-        .eq('id', id)
-        .eq('user_id', userId); // Ensure user can only delete their own items
+      const timer = setTimeout(() => {
+        undoTimersRef.current.delete(id);
+        setRecentlyDeleted(prev => prev.filter(item => item.id !== id));
+        const mutation = toDeleteMutation(id, snapshot);
+        cancelReminders(mutation.id);
+        queueMutation(userId, mutation).catch((err: any) =>
+          setError(err.message || 'Failed to delete item'),
+        );
+      }, UNDO_WINDOW_MS);
+      undoTimersRef.current.set(id, { snapshot, timer });
 
-      if (deleteError) throw deleteError;
-      setItems((prev) => prev.filter((item) => item.id !== id));
       return { success: true };
     } catch (err: any) {
       const errorMessage = err.message || 'Failed to delete item';
@@ -136,58 +668,287 @@ export const useItems = () => {
     }
   };
 
-  const fetchHighPriorityTasks = async () => {
+  const undoDelete = (id: string) => {
+    const pending = undoTimersRef.current.get(id);
+    const snapshot = recentlyDeleted.find(item => item.id === id);
+    if (!pending || !snapshot) return;
+
+    clearTimeout(pending.timer);
+    undoTimersRef.current.delete(id);
+    setRecentlyDeleted(prev => prev.filter(item => item.id !== id));
+    const restored = { ...snapshot, id: resolveId(id) };
+    setItems(prev =>
+      filterItems(
+        [restored, ...prev.filter(item => item.id !== restored.id)],
+        queryRef.current,
+      ),
+    );
+  };
+
+  /**
+   * Sends deletes still inside their undo window straight to the queue. It
+   * runs just before the user changes, so the queue is updated synchronously
+   * and left to the usual flush.
+   */
+  const commitPendingDeletes = () => {
+    const userId = userIdRef.current;
+    const deletes = [...undoTimersRef.current].map(
+      ([id, { snapshot, timer }]) => {
+        clearTimeout(timer);
+        return toDeleteMutation(id, snapshot);
+      },
+    );
+    undoTimersRef.current.clear();
+    setRecentlyDeleted([]);
+    if (!userId || deletes.length === 0) return;
+
+    deletes.forEach(mutation => cancelReminders(mutation.id));
+    writeQueue(
+      userId,
+      deletes.reduce(
+        (pending, mutation) =>
+          enqueueMutation(pending, mutation, inFlightRef.current),
+        queueRef.current,
+      ),
+    )
+      .then(async () => {
+        if (await isConnected()) flushQueue();
+      })
+      .catch(err => console.error('Error queueing delete:', err));
+  };
+
+  const dismissItemError = (id: string) => {
+    setItemErrors(prev => withoutKey(prev, id));
+  };
+
+  // Replaces the active filter/sort, remembers it for next launch and reloads
+  const setQuery = async (next: TaskQuery) => {
+    queryRef.current = next;
+    setQueryState(next);
     try {
-      setLoading(true);
-      setError(null);
+      await saveQuery(next);
+    } catch (err) {
+      console.error('Error saving query:', err);
+    }
+    await fetchItems();
+  };
 
-      // Get current user ID from session
-      const { data: { session } } = await supabase.auth.getSession();
-      const userId = session?.user?.id;
+  const onReconnect = useEffectEvent(() => flushQueue());
+  const onUnmount = useEffectEvent(() => commitPendingDeletes());
 
-      if (!userId) {
-        throw new Error('User not authenticated');
+  useEffect(() => {
+    // Replay the queue as soon as connectivity comes back
+    const unsubscribe = NetInfo.addEventListener(state => {
+      const online = !!state.isConnected && state.isInternetReachable !== false;
+      setIsOffline(!online);
+      if (online) {
+        onReconnect();
       }
+    });
+    return unsubscribe;
+  }, []);
 
-      // Query high priority tasks for the current user
-      const { data, error: fetchError } = await supabase
-        .from('tasks')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('priority', 'High')
-        .order('id', { ascending: false });
-  
-      if (fetchError) throw fetchError;
-      setItems(data || []);
-    } catch (err: any) {
-      setError(err.message || 'Failed to fetch items');
-    } finally {
-      setLoading(false);
+  useEffect(() => {
+    return () => onUnmount();
+  }, []);
+
+  /**
+   * Merges a realtime change into the list. Rows with local changes still
+   * queued are skipped (the queue will overwrite them anyway), as are the
+   * echoes of writes this device just made.
+   */
+  const handleRealtimeChange = (
+    userId: string,
+    payload: RealtimePostgresChangesPayload<Item>,
+  ) => {
+    if (userIdRef.current !== userId) return;
+    const viewedListId = listIdRef.current;
+
+    // Moved to the Trash elsewhere, which is a delete as far as this list goes
+    if (payload.eventType === 'DELETE' || payload.new.deleted_at) {
+      const id =
+        payload.eventType === 'DELETE' ? payload.old.id : payload.new.id;
+      if (!id) return;
+      // Queued edits can't bring it back, so its reminders go regardless
+      cancelReminders(id);
+      if (queueRef.current.some(m => m.id === id)) return;
+      setItems(prev => prev.filter(item => item.id !== id));
+      updateCachedItems(userId, cached =>
+        cached.filter(item => item.id !== id),
+      );
+      return;
     }
+
+    const row = payload.new;
+    if (
+      queueRef.current.some(m => m.id === row.id) ||
+      isAwaitingDelete(row.id)
+    ) {
+      return;
+    }
+
+    // Our own insert can echo back before the response that carries its id
+    const inFlight = inFlightRef.current;
+    if (
+      payload.eventType === 'INSERT' &&
+      inFlight?.kind === 'create' &&
+      isSameItem(row, { ...inFlight.fields, id: row.id } as Item)
+    ) {
+      return;
+    }
+
+    const upsert = (list: Item[]) => {
+      const existing = list.find(item => item.id === row.id);
+      if (existing) {
+        return isSameItem(existing, row)
+          ? list
+          : list.map(item => (item.id === row.id ? row : item));
+      }
+      return [row, ...list];
+    };
+
+    setItems(prev =>
+      isInList(row, viewedListId, userId) && matchesQuery(row, queryRef.current)
+        ? sortItems(upsert(prev), queryRef.current)
+        : prev.filter(item => item.id !== row.id),
+    );
+    updateCachedItems(userId, upsert);
+    syncReminders([row]);
   };
 
+  // Shared lists hear about every member's changes; the user's own and
+  // assigned tasks only need theirs. Realtime filters on the new row, so a
+  // task assigned to someone else leaves the assigned view on the next fetch.
+  const subscribeToChanges = (userId: string, forListId: string | null) => {
+    const key = `tasks:${userId}:${forListId ?? 'own'}`;
+    if (channelRef.current?.key === key) return;
+    unsubscribeFromChanges();
 
+    const channel = supabase
+      .channel(key)
+      .on<Item>(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'tasks',
+          filter:
+            forListId === ASSIGNED_TO_ME
+              ? `assignee_id=eq.${userId}`
+              : forListId
+              ? `list_id=eq.${forListId}`
+              : `user_id=eq.${userId}`,
+        },
+        payload => handleRealtimeChange(userId, payload),
+      )
+      .subscribe();
+    channelRef.current = { key, channel };
+  };
 
+  const unsubscribeFromChanges = () => {
+    if (channelRef.current) {
+      supabase.removeChannel(channelRef.current.channel);
+      channelRef.current = null;
+    }
+  };
 
   useEffect(() => {
-    fetchItems();
+    return unsubscribeFromChanges;
   }, []);
 
+  // Retries a conflicted edit on top of the latest server copy
+  const resolveConflict = async (id: string, fields: Partial<ItemFields>) => {
+    const conflict = conflicts.find(c => c.id === id);
+    if (!conflict) return { success: false, error: 'Conflict not found' };
+
+    setConflicts(prev => prev.filter(c => c.id !== id));
+    return updateItem(id, fields, conflict.theirs);
+  };
+
+  // Keeps the server copy and throws away the local edit
+  const dismissConflict = (id: string) => {
+    setConflicts(prev => prev.filter(c => c.id !== id));
+  };
+
   const clearItems = () => {
+    commitPendingDeletes();
+    fetchIdRef.current++;
+    cursorRef.current = null;
+    setHasMore(false);
+    // The queue stays persisted and is picked up again on the next login
+    userIdRef.current = null;
+    queueRef.current = [];
+    setQueue([]);
+    setConflicts([]);
+    setItemErrors({});
     setItems([]);
     setError(null);
   };
 
+  // Starts over whenever a different user (or nobody) is signed in. Token
+  // refreshes keep the same user, so they don't refetch.
+  const onUserChange = useEffectEvent((userId: string | null) => {
+    clearItems();
+    if (userId) {
+      fetchItems();
+      subscribeToChanges(userId, listIdRef.current);
+    } else {
+      unsubscribeFromChanges();
+      setLoading(false);
+    }
+  });
+
+  useEffect(() => {
+    onUserChange(activeUserId);
+  }, [activeUserId]);
+
+  // Another list only changes what's shown; queued edits and pending
+  // deletes carry on
+  const onListChange = useEffectEvent((nextListId: string | null) => {
+    if (isFirstListRef.current) {
+      isFirstListRef.current = false;
+      return;
+    }
+    const userId = activeUserIdRef.current;
+    if (!userId) return;
+
+    fetchIdRef.current++;
+    cursorRef.current = null;
+    setHasMore(false);
+    setConflicts([]);
+    setItems([]);
+    fetchItems();
+    subscribeToChanges(userId, nextListId);
+  });
+
+  useEffect(() => {
+    onListChange(listId);
+  }, [listId]);
+
   return {
     items,
     loading,
+    loadingMore,
+    refreshing,
+    hasMore,
     error,
+    isOffline,
+    pendingIds,
+    conflicts,
+    itemErrors,
+    recentlyDeleted,
+    query,
+    setQuery,
     fetchItems,
+    loadMore,
+    refresh,
     createItem,
     updateItem,
+    setItemStatus,
     deleteItem,
-    fetchHighPriorityTasks,
-    clearItems,
+    undoDelete,
+    dismissItemError,
+    resolveConflict,
+    dismissConflict,
   };
 };
-
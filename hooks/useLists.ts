@@ -0,0 +1,321 @@
+import { useEffect, useEffectEvent, useRef, useState } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '../lib/supabase';
+import { ASSIGNED_TO_ME } from '../lib/taskQuery';
+import { useAuth } from './useAuth';
+
+export const LIST_ROLES = ['owner', 'editor', 'viewer'] as const;
+export type ListRole = (typeof LIST_ROLES)[number];
+
+export const LIST_ROLE_LABELS: Record<ListRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+// There's one owner per list, so only these can be invited or assigned
+export const MEMBER_ROLES: ListRole[] = ['editor', 'viewer'];
+
+// The tasks with no list, which only their creator sees
+export const OWN_TASKS_LABEL = 'My Tasks';
+
+export const ASSIGNED_TO_ME_LABEL = 'Assigned to Me';
+
+export interface TaskList {
+  id: string;
+  name: string;
+  owner_id: string;
+  // The signed-in user's role in this list
+  role: ListRole;
+  created_at?: string;
+}
+
+export interface ListMember {
+  list_id: string;
+  user_id: string;
+  email: string;
+  role: ListRole;
+  created_at?: string;
+}
+
+export interface ListInvitation {
+  id: string;
+  list_id: string;
+  list_name: string;
+  invited_by_email: string | null;
+  // Stored lowercase
+  email: string;
+  role: ListRole;
+  created_at?: string;
+}
+
+// Viewers can read a list but not change its tasks
+export const canEditList = (role: ListRole | undefined) =>
+  role === 'owner' || role === 'editor';
+
+const selectedKey = (userId: string) => `lists:selected:${userId}`;
+// Cached so shared lists stay reachable offline
+const cacheKey = (userId: string) => `lists:cache:${userId}`;
+
+const byName = (a: TaskList, b: TaskList) => a.name.localeCompare(b.name);
+
+/**
+ * The shared lists the user belongs to, which one is selected (null for
+ * their own tasks, `ASSIGNED_TO_ME` for tasks assigned to them) and
+ * invitations waiting for them. The selection is remembered per user.
+ */
+export const useLists = () => {
+  const { user, isMfaRequired } = useAuth();
+  // Lists only load once any second factor has been verified
+  const activeUserId = user && isMfaRequired === false ? user.id : null;
+  const email = user?.email?.toLowerCase() ?? null;
+  const [lists, setLists] = useState<TaskList[]>([]);
+  const [selectedListId, setSelectedListId] = useState<string | null>(null);
+  const [invitations, setInvitations] = useState<ListInvitation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeUserIdRef = useRef(activeUserId);
+  activeUserIdRef.current = activeUserId;
+
+  const requireUserId = () => {
+    if (!activeUserIdRef.current) {
+      throw new Error('User not authenticated');
+    }
+    return activeUserIdRef.current;
+  };
+
+  const selectList = async (listId: string | null) => {
+    setSelectedListId(listId);
+    const userId = activeUserIdRef.current;
+    if (!userId) return;
+    try {
+      await (listId
+        ? AsyncStorage.setItem(selectedKey(userId), listId)
+        : AsyncStorage.removeItem(selectedKey(userId)));
+    } catch (err) {
+      console.error('Error saving selected list:', err);
+    }
+  };
+
+  const fetchLists = async () => {
+    let userId: string | null = null;
+    try {
+      setLoading(true);
+      setError(null);
+      userId = requireUserId();
+
+      // The inner join keeps only lists the user is a member of, with their role
+      const { data, error: fetchError } = await supabase
+        .from('lists')
+        .select('*, list_members!inner(role)')
+        .eq('list_members.user_id', userId);
+
+      if (fetchError) throw fetchError;
+
+      const next: TaskList[] = (data || [])
+        .map(({ list_members, ...list }) => ({
+          ...list,
+          role: list_members[0].role,
+        }))
+        .sort(byName);
+      setLists(next);
+      await AsyncStorage.setItem(cacheKey(userId), JSON.stringify(next));
+      return next;
+    } catch (err: any) {
+      // Fall back to the last lists we saw, e.g. when offline
+      const cached = userId && (await AsyncStorage.getItem(cacheKey(userId)));
+      if (cached) {
+        const next: TaskList[] = JSON.parse(cached);
+        setLists(next);
+        return next;
+      }
+      setError(err.message || 'Failed to fetch lists');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchInvitations = async () => {
+    if (!email) return;
+    try {
+      // Owners can also read the invitations they sent, so filter to ours
+      const { data, error: fetchError } = await supabase
+        .from('list_invitations')
+        .select('*')
+        .eq('email', email)
+        .order('created_at', { ascending: false });
+
+      if (fetchError) throw fetchError;
+      setInvitations(data || []);
+    } catch (err: any) {
+      setError(err.message || 'Failed to fetch invitations');
+    }
+  };
+
+  const refresh = () => Promise.all([fetchLists(), fetchInvitations()]);
+
+  const onUserChange = useEffectEvent((userId: string) => {
+    Promise.all([fetchLists(), AsyncStorage.getItem(selectedKey(userId))]).then(
+      ([loaded, saved]) => {
+        // Left or removed from the list since last time
+        if (
+          saved === ASSIGNED_TO_ME ||
+          (saved && loaded?.some(list => list.id === saved))
+        ) {
+          setSelectedListId(saved);
+        }
+      },
+    );
+    fetchInvitations();
+  });
+
+  useEffect(() => {
+    setLists([]);
+    setInvitations([]);
+    setSelectedListId(null);
+    if (activeUserId) {
+      onUserChange(activeUserId);
+    }
+  }, [activeUserId]);
+
+  const createList = async (name: string) => {
+    try {
+      setError(null);
+      const userId = requireUserId();
+
+      // The database adds the creator as owner
+      const { data, error: insertError } = await supabase
+        .from('lists')
+        .insert([{ name: name.trim(), owner_id: userId }])
+        .select()
+        .single();
+
+      if (insertError) throw insertError;
+
+      const list: TaskList = { ...data, role: 'owner' };
+      setLists(prev => [...prev, list].sort(byName));
+      await selectList(list.id);
+      return { success: true, data: list };
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to create list';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  // Drops a list the user no longer belongs to
+  const forgetList = async (listId: string) => {
+    setLists(prev => prev.filter(list => list.id !== listId));
+    if (selectedListId === listId) {
+      await selectList(null);
+    }
+  };
+
+  // Owners only; its tasks are deleted with it
+  const deleteList = async (listId: string) => {
+    try {
+      setError(null);
+      const { error: deleteError } = await supabase
+        .from('lists')
+        .delete()
+        .eq('id', listId);
+
+      if (deleteError) throw deleteError;
+      await forgetList(listId);
+      return { success: true };
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to delete list';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  const leaveList = async (listId: string) => {
+    try {
+      setError(null);
+      const userId = requireUserId();
+      const { error: deleteError } = await supabase
+        .from('list_members')
+        .delete()
+        .eq('list_id', listId)
+        .eq('user_id', userId);
+
+      if (deleteError) throw deleteError;
+      await forgetList(listId);
+      return { success: true };
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to leave list';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  const acceptInvitation = async (invitation: ListInvitation) => {
+    try {
+      setError(null);
+      const { error: acceptError } = await supabase.rpc('accept_invitation', {
+        invitation_id: invitation.id,
+      });
+
+      if (acceptError) throw acceptError;
+      setInvitations(prev => prev.filter(i => i.id !== invitation.id));
+      await fetchLists();
+      await selectList(invitation.list_id);
+      return { success: true };
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to accept invitation';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  const declineInvitation = async (invitation: ListInvitation) => {
+    try {
+      setError(null);
+      const { error: deleteError } = await supabase
+        .from('list_invitations')
+        .delete()
+        .eq('id', invitation.id);
+
+      if (deleteError) throw deleteError;
+      setInvitations(prev => prev.filter(i => i.id !== invitation.id));
+      return { success: true };
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to decline invitation';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  const selectedList = lists.find(list => list.id === selectedListId) ?? null;
+
+  // The assigned view mixes lists, so permissions are checked per task
+  const canEditTask = (taskListId: string | null | undefined) =>
+    !taskListId ||
+    canEditList(lists.find(list => list.id === taskListId)?.role);
+
+  return {
+    lists,
+    selectedList,
+    selectedListId:
+      selectedListId === ASSIGNED_TO_ME
+        ? ASSIGNED_TO_ME
+        : selectedList?.id ?? null,
+    // The user's own tasks are always editable, and new tasks from the
+    // assigned view are added to them
+    canEdit: !selectedList || canEditList(selectedList.role),
+    canEditTask,
+    invitations,
+    loading,
+    error,
+    refresh,
+    selectList,
+    createList,
+    deleteList,
+    leaveList,
+    acceptInvitation,
+    declineInvitation,
+  };
+};
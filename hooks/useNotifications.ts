@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  // Null once the task is deleted
+  task_id: string | null;
+  kind: 'assigned';
+  // Copied when the notification was sent
+  task_title: string;
+  actor_name: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Unread in-app notifications for the signed-in user, newest first. The
+ * database writes them (e.g. when someone assigns the user a task) and they
+ * arrive over realtime while the app is open.
+ */
+export const useNotifications = () => {
+  const { user, isMfaRequired } = useAuth();
+  // Notifications only load once any second factor has been verified
+  const activeUserId = user && isMfaRequired === false ? user.id : null;
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+
+  const fetchNotifications = async (userId: string) => {
+    try {
+      setError(null);
+      const { data, error: fetchError } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .is('read_at', null)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (fetchError) throw fetchError;
+      setNotifications(data || []);
+    } catch (err: any) {
+      setError(err.message || 'Failed to fetch notifications');
+    }
+  };
+
+  const unsubscribe = () => {
+    if (channelRef.current) {
+      supabase.removeChannel(channelRef.current);
+      channelRef.current = null;
+    }
+  };
+
+  useEffect(() => {
+    setNotifications([]);
+    unsubscribe();
+    if (!activeUserId) return;
+
+    fetchNotifications(activeUserId);
+    channelRef.current = supabase
+      .channel(`notifications:${activeUserId}`)
+      .on<AppNotification>(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${activeUserId}`,
+        },
+        payload =>
+          setNotifications(prev => [
+            payload.new,
+            ...prev.filter(n => n.id !== payload.new.id),
+          ]),
+      )
+      .subscribe();
+    return unsubscribe;
+  }, [activeUserId]);
+
+  const markRead = async (id: string) => {
+    try {
+      setError(null);
+      setNotifications(prev => prev.filter(n => n.id !== id));
+      const { error: updateError } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (updateError) throw updateError;
+      return { success: true };
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to update notification';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  return {
+    notifications,
+    error,
+    markRead,
+  };
+};
@@ -0,0 +1,111 @@
+import { useEffect, useEffectEvent, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { Profile, avatarUrlFor } from './useProfile';
+import { ListRole, canEditList } from './useLists';
+
+export interface Person {
+  id: string;
+  email: string;
+  display_name: string | null;
+  avatarUrl: string | null;
+  // Their role in each list shared with the signed-in user
+  roles: Record<string, ListRole>;
+}
+
+export const personName = (person: Person) =>
+  person.display_name || person.email;
+
+/**
+ * The signed-in user and everyone who shares a list with them, with their
+ * profiles, for showing and picking assignees. Reloads when `listIds` changes,
+ * e.g. after joining a list.
+ */
+export const usePeople = (listIds: string[]) => {
+  const { user, isMfaRequired } = useAuth();
+  // People only load once any second factor has been verified
+  const activeUserId = user && isMfaRequired === false ? user.id : null;
+  const email = user?.email ?? '';
+  const [people, setPeople] = useState<Record<string, Person>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPeople = async (userId: string) => {
+    try {
+      setError(null);
+      // Row Level Security only returns members of the user's own lists
+      const { data: members, error: membersError } = await supabase
+        .from('list_members')
+        .select('list_id, user_id, email, role');
+
+      if (membersError) throw membersError;
+
+      const next: Record<string, Person> = {
+        [userId]: {
+          id: userId,
+          email,
+          display_name: null,
+          avatarUrl: null,
+          roles: {},
+        },
+      };
+      (members || []).forEach(member => {
+        next[member.user_id] = next[member.user_id] ?? {
+          id: member.user_id,
+          email: member.email,
+          display_name: null,
+          avatarUrl: null,
+          roles: {},
+        };
+        next[member.user_id].roles[member.list_id] = member.role;
+      });
+
+      const { data: profiles, error: profilesError } = await supabase
+        .from('profiles')
+        .select('*')
+        .in('id', Object.keys(next));
+
+      if (profilesError) throw profilesError;
+
+      (profiles || []).forEach((profile: Profile) => {
+        next[profile.id] = {
+          ...next[profile.id],
+          display_name: profile.display_name,
+          avatarUrl: avatarUrlFor(profile),
+        };
+      });
+      setPeople(next);
+    } catch (err: any) {
+      setError(err.message || 'Failed to fetch people');
+    }
+  };
+
+  useEffect(() => {
+    setPeople({});
+  }, [activeUserId]);
+
+  const onListsChange = useEffectEvent((userId: string) => fetchPeople(userId));
+
+  const listKey = listIds.join(',');
+  useEffect(() => {
+    if (activeUserId) {
+      onListsChange(activeUserId);
+    }
+  }, [activeUserId, listKey]);
+
+  /**
+   * Who a task in `listId` can be assigned to: the list's owner and editors,
+   * since viewers couldn't change it, or just the user for their own tasks.
+   */
+  const assigneesFor = (listId: string | null) =>
+    Object.values(people)
+      .filter(person =>
+        listId ? canEditList(person.roles[listId]) : person.id === activeUserId,
+      )
+      .sort((a, b) => personName(a).localeCompare(personName(b)));
+
+  return {
+    people,
+    error,
+    assigneesFor,
+  };
+};
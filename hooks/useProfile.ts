@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { AVATAR_BUCKET } from '../lib/storage';
+
+export interface Profile {
+  id: string;
+  display_name: string | null;
+  // Path in the avatars bucket, "<user id>/avatar"
+  avatar_path: string | null;
+  updated_at?: string;
+}
+
+export interface AvatarFile {
+  uri: string;
+  type?: string;
+}
+
+// The URL stays the same when the avatar changes, so add the save time to
+// get past image caches
+export const avatarUrlFor = (profile: Profile | null) =>
+  profile?.avatar_path
+    ? `${
+        supabase.storage.from(AVATAR_BUCKET).getPublicUrl(profile.avatar_path)
+          .data.publicUrl
+      }?v=${encodeURIComponent(profile.updated_at ?? '')}`
+    : null;
+
+/**
+ * The signed-in user's display name and avatar. The row is created on the
+ * first save, so a missing profile just means nothing has been set yet.
+ */
+export const useProfile = (userId: string | null) => {
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProfile = async (id: string) => {
+    try {
+      setError(null);
+      const { data, error: fetchError } = await supabase
+        .from('profiles')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (fetchError) throw fetchError;
+      setProfile(data);
+    } catch (err: any) {
+      setError(err.message || 'Failed to fetch profile');
+    }
+  };
+
+  useEffect(() => {
+    setProfile(null);
+    if (userId) {
+      fetchProfile(userId);
+    }
+  }, [userId]);
+
+  const saveProfile = async (
+    fields: Partial<Pick<Profile, 'display_name' | 'avatar_path'>>,
+  ) => {
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    try {
+      setError(null);
+      const { data, error: saveError } = await supabase
+        .from('profiles')
+        .upsert({
+          id: userId,
+          ...fields,
+          updated_at: new Date().toISOString(),
+        })
+        .select()
+        .single();
+
+      if (saveError) throw saveError;
+      setProfile(data);
+      return { success: true };
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to save profile';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  const updateDisplayName = (displayName: string) =>
+    saveProfile({ display_name: displayName.trim() || null });
+
+  // Replaces the previous avatar, which always lives at the same path
+  const uploadAvatar = async (file: AvatarFile) => {
+    if (!userId) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    try {
+      setError(null);
+      const contentType = file.type || 'image/jpeg';
+      const path = `${userId}/avatar`;
+      const body = await (await fetch(file.uri)).arrayBuffer();
+
+      const { error: uploadError } = await supabase.storage
+        .from(AVATAR_BUCKET)
+        .upload(path, body, { contentType, upsert: true });
+
+      if (uploadError) throw uploadError;
+      return await saveProfile({ avatar_path: path });
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to upload avatar';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  return {
+    profile,
+    avatarUrl: avatarUrlFor(profile),
+    error,
+    updateDisplayName,
+    uploadAvatar,
+  };
+};
@@ -0,0 +1,255 @@
+import { useRef, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { isLocalId } from '../lib/taskStore';
+import { useAuth } from './useAuth';
+
+export interface Subtask {
+  id: string;
+  task_id: string;
+  title: string;
+  is_done: boolean;
+  // Order within the checklist, lowest first
+  position: number;
+  user_id?: string;
+  created_at?: string;
+}
+
+export type SubtaskFields = Partial<Pick<Subtask, 'title' | 'is_done'>>;
+
+export interface SubtaskProgress {
+  done: number;
+  total: number;
+}
+
+const byPosition = (a: Subtask, b: Subtask) => a.position - b.position;
+
+/**
+ * Checklists for the tasks in `useItems`, keyed by task id. Changes show up
+ * straight away and are rolled back if the server rejects them. Subtasks of
+ * a deleted task are removed by the database (ON DELETE CASCADE).
+ */
+export const useSubtasks = () => {
+  const { user, isMfaRequired } = useAuth();
+  const activeUserId = user && isMfaRequired === false ? user.id : null;
+  const [subtasks, setSubtasks] = useState<Record<string, Subtask[]>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  // Task ids already fetched (or being fetched), so each is loaded once
+  const loadedRef = useRef<Set<string>>(new Set());
+  const subtasksRef = useRef<Record<string, Subtask[]>>({});
+  const activeUserIdRef = useRef(activeUserId);
+  activeUserIdRef.current = activeUserId;
+
+  const setList = (taskId: string, list: Subtask[]) => {
+    subtasksRef.current = {
+      ...subtasksRef.current,
+      [taskId]: [...list].sort(byPosition),
+    };
+    setSubtasks(subtasksRef.current);
+  };
+
+  const findSubtask = (id: string) =>
+    Object.values(subtasksRef.current)
+      .flat()
+      .find(subtask => subtask.id === id);
+
+  /**
+   * Fetches checklists for tasks we haven't seen yet. Tasks that only exist
+   * on this device have nothing on the server, so they are skipped.
+   */
+  const loadSubtasks = async (taskIds: string[], force = false) => {
+    const ids = taskIds.filter(
+      id => !isLocalId(id) && (force || !loadedRef.current.has(id)),
+    );
+    if (ids.length === 0) return;
+    ids.forEach(id => loadedRef.current.add(id));
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('subtasks')
+        .select('*')
+        .in('task_id', ids)
+        .order('position', { ascending: true });
+
+      if (fetchError) throw fetchError;
+
+      const grouped: Record<string, Subtask[]> = {};
+      ids.forEach(id => {
+        grouped[id] = [];
+      });
+      (data || []).forEach((subtask: Subtask) => {
+        grouped[subtask.task_id].push(subtask);
+      });
+      subtasksRef.current = { ...subtasksRef.current, ...grouped };
+      setSubtasks(subtasksRef.current);
+    } catch (err: any) {
+      ids.forEach(id => loadedRef.current.delete(id));
+      setError(err.message || 'Failed to fetch subtasks');
+    }
+  };
+
+  const progressFor = (taskId: string): SubtaskProgress | null => {
+    const list = subtasks[taskId];
+    if (!list || list.length === 0) return null;
+    return {
+      done: list.filter(subtask => subtask.is_done).length,
+      total: list.length,
+    };
+  };
+
+  const addSubtask = async (taskId: string, title: string) => {
+    const previous = subtasksRef.current[taskId] || [];
+    try {
+      setError(null);
+      const userId = activeUserIdRef.current;
+
+      if (!userId) {
+        throw new Error('User not authenticated');
+      }
+
+      const position =
+        previous.reduce((max, subtask) => Math.max(max, subtask.position), -1) +
+        1;
+      const { data, error: insertError } = await supabase
+        .from('subtasks')
+        .insert([{ task_id: taskId, title, position, user_id: userId }])
+        .select()
+        .single();
+
+      if (insertError) throw insertError;
+
+      setList(taskId, [...(subtasksRef.current[taskId] || []), data]);
+      return { success: true, data };
+    } catch (err: any) {
+      const errorMessage = err.message || 'Failed to add subtask';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  const updateSubtask = async (id: string, fields: SubtaskFields) => {
+    const subtask = findSubtask(id);
+    if (!subtask) return { success: false, error: 'Subtask not found' };
+    const previous = subtasksRef.current[subtask.task_id];
+
+    try {
+      setError(null);
+      setList(
+        subtask.task_id,
+        previous.map(s => (s.id === id ? { ...s, ...fields } : s)),
+      );
+
+      const { error: updateError } = await supabase
+        .from('subtasks')
+        .update(fields)
+        .eq('id', id);
+
+      if (updateError) throw updateError;
+      return { success: true };
+    } catch (err: any) {
+      setList(subtask.task_id, previous);
+      const errorMessage = err.message || 'Failed to update subtask';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  const toggleSubtask = (id: string) => {
+    const subtask = findSubtask(id);
+    return updateSubtask(id, { is_done: !subtask?.is_done });
+  };
+
+  // Swaps a subtask with its neighbour above (-1) or below (1)
+  const moveSubtask = async (id: string, direction: -1 | 1) => {
+    const subtask = findSubtask(id);
+    if (!subtask) return { success: false, error: 'Subtask not found' };
+    const previous = subtasksRef.current[subtask.task_id];
+    const index = previous.findIndex(s => s.id === id);
+    const neighbour = previous[index + direction];
+    if (!neighbour) return { success: true };
+
+    try {
+      setError(null);
+      setList(
+        subtask.task_id,
+        previous.map(s => {
+          if (s.id === subtask.id) {
+            return { ...s, position: neighbour.position };
+          }
+          if (s.id === neighbour.id) {
+            return { ...s, position: subtask.position };
+          }
+          return s;
+        }),
+      );
+
+      const results = await Promise.all([
+        supabase
+          .from('subtasks')
+          .update({ position: neighbour.position })
+          .eq('id', subtask.id),
+        supabase
+          .from('subtasks')
+          .update({ position: subtask.position })
+          .eq('id', neighbour.id),
+      ]);
+      const moveError = results.find(result => result.error)?.error;
+
+      if (moveError) throw moveError;
+      return { success: true };
+    } catch (err: any) {
+      setList(subtask.task_id, previous);
+      const errorMessage = err.message || 'Failed to reorder subtasks';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  const deleteSubtask = async (id: string) => {
+    const subtask = findSubtask(id);
+    if (!subtask) return { success: false, error: 'Subtask not found' };
+    const previous = subtasksRef.current[subtask.task_id];
+
+    try {
+      setError(null);
+      setList(
+        subtask.task_id,
+        previous.filter(s => s.id !== id),
+      );
+
+      const { error: deleteError } = await supabase
+        .from('subtasks')
+        .delete()
+        .eq('id', id);
+
+      if (deleteError) throw deleteError;
+      return { success: true };
+    } catch (err: any) {
+      setList(subtask.task_id, previous);
+      const errorMessage = err.message || 'Failed to delete subtask';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  // Clear subtasks (useful for logout)
+  const clearSubtasks = () => {
+    loadedRef.current = new Set();
+    subtasksRef.current = {};
+    setSubtasks({});
+    setError(null);
+  };
+
+  return {
+    subtasks,
+    error,
+    loadSubtasks,
+    progressFor,
+    addSubtask,
+    updateSubtask,
+    toggleSubtask,
+    moveSubtask,
+    deleteSubtask,
+    clearSubtasks,
+  };
+};
@@ -1,3 +1,8 @@
 module.exports = {
   preset: 'react-native',
+  setupFiles: ['./jest.setup.js'],
+  // These ship untranspiled ES modules
+  transformIgnorePatterns: [
+    'node_modules/(?!((jest-)?react-native(-[a-z-]+)?|@react-native(-community)?|@notifee)/)',
+  ],
 };
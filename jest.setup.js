@@ -0,0 +1,48 @@
+/* eslint-env jest */
+/**
+ * Native modules have no implementation under Jest; these stand in for them.
+ */
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock.js'),
+);
+
+jest.mock('@notifee/react-native', () =>
+  require('@notifee/react-native/jest-mock'),
+);
+
+jest.mock('react-native-share', () => ({
+  open: jest.fn(async () => ({ success: true, message: '' })),
+}));
+
+jest.mock('@react-native-documents/picker', () => ({
+  errorCodes: { OPERATION_CANCELED: 'OPERATION_CANCELED' },
+  isErrorWithCode: jest.fn(() => false),
+  pick: jest.fn(async () => []),
+  keepLocalCopy: jest.fn(async () => []),
+}));
+
+// Keychain entries are kept in memory, per service
+jest.mock('react-native-keychain', () => {
+  const entries = new Map();
+  return {
+    ACCESSIBLE: {
+      AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY:
+        'AccessibleAfterFirstUnlockThisDeviceOnly',
+    },
+    getGenericPassword: jest.fn(async ({ service }) =>
+      entries.has(service) ? entries.get(service) : false,
+    ),
+    setGenericPassword: jest.fn(async (username, password, { service }) => {
+      entries.set(service, { service, username, password });
+      return { service, storage: 'memory' };
+    }),
+    resetGenericPassword: jest.fn(async ({ service }) =>
+      entries.delete(service),
+    ),
+  };
+});
@@ -0,0 +1,213 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import aesjs from 'aes-js';
+import { ATTACHMENT_BUCKET, AVATAR_BUCKET } from './storage';
+
+type Row = Record<string, unknown>;
+
+export interface AccountExport {
+  exported_at: string;
+  account: { id: string; email: string | null; created_at: string };
+  profile: Row | null;
+  categories: Row[];
+  // Each task carries its checklist
+  tasks: (Row & { subtasks: Row[] })[];
+}
+
+export interface DeleteAccountCredentials {
+  email: string;
+  password: string;
+  // Needed when the account has an authenticator app
+  totpCode?: string;
+}
+
+// Rows per request; the API caps a single response at 1000 by default
+const PAGE_SIZE = 500;
+
+// Task ids per `in` filter, to keep the request URL short
+const IDS_PER_REQUEST = 100;
+
+const fetchAll = async (
+  client: SupabaseClient,
+  table: string,
+  column: string,
+  userId: string,
+) => {
+  const rows: Row[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await client
+      .from(table)
+      .select('*')
+      .eq(column, userId)
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+// Storage files aren't rows, so the database function can't remove them.
+// The account is already gone by then, so failures are only logged
+const removeFiles = async (
+  client: SupabaseClient,
+  bucket: string,
+  paths: string[],
+) => {
+  if (paths.length === 0) return;
+  const { error } = await client.storage.from(bucket).remove(paths);
+  if (error) console.error(`Error removing files from ${bucket}:`, error);
+};
+
+/**
+ * Names of the lists the user owns that have other members. Deleting the
+ * account would delete them and their tasks for everyone, so it's refused
+ * until they're deleted or their members removed.
+ */
+export const fetchOwnedSharedLists = async (
+  client: SupabaseClient,
+  userId: string,
+) => {
+  const lists = await fetchAll(client, 'lists', 'owner_id', userId);
+  const shared = new Set<unknown>();
+
+  for (let from = 0; from < lists.length; from += IDS_PER_REQUEST) {
+    const { data, error } = await client
+      .from('list_members')
+      .select('list_id')
+      .in(
+        'list_id',
+        lists.slice(from, from + IDS_PER_REQUEST).map(list => list.id),
+      )
+      .neq('user_id', userId);
+
+    if (error) throw error;
+    (data || []).forEach(row => shared.add(row.list_id));
+  }
+  return lists
+    .filter(list => shared.has(list.id))
+    .map(list => list.name as string);
+};
+
+/**
+ * Everything stored for the signed-in user, in one JSON-friendly object.
+ */
+export const exportAccountData = async (
+  client: SupabaseClient,
+): Promise<AccountExport> => {
+  const {
+    data: { user },
+    error,
+  } = await client.auth.getUser();
+  if (error) throw error;
+  if (!user) throw new Error('User not authenticated');
+
+  const [profiles, categories, tasks, subtasks] = await Promise.all([
+    fetchAll(client, 'profiles', 'id', user.id),
+    fetchAll(client, 'categories', 'user_id', user.id),
+    fetchAll(client, 'tasks', 'user_id', user.id),
+    fetchAll(client, 'subtasks', 'user_id', user.id),
+  ]);
+
+  return {
+    exported_at: new Date().toISOString(),
+    account: {
+      id: user.id,
+      email: user.email ?? null,
+      created_at: user.created_at,
+    },
+    profile: profiles[0] ?? null,
+    categories,
+    tasks: tasks.map(task => ({
+      ...task,
+      subtasks: subtasks.filter(subtask => subtask.task_id === task.id),
+    })),
+  };
+};
+
+// Share sheets take files as data URLs, which need base64 of the UTF-8 bytes
+export const toJsonDataUrl = (data: unknown) => {
+  const bytes = aesjs.utils.utf8.toBytes(JSON.stringify(data, null, 2));
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return `data:application/json;base64,${btoa(binary)}`;
+};
+
+/**
+ * Signs in again with the password (and authenticator code, if any), calls
+ * `delete_account`, which deletes the user and all of their rows, then
+ * removes their avatar and uploads. Refuses while the user owns shared
+ * lists. The database refuses unless the sign-in is recent, so pass a client
+ * from `createDetachedClient` rather than the app's own.
+ */
+export const deleteAccount = async (
+  client: SupabaseClient,
+  { email, password, totpCode }: DeleteAccountCredentials,
+) => {
+  const { data, error } = await client.auth.signInWithPassword({
+    email,
+    password,
+  });
+  if (error) throw error;
+  const userId = data.user.id;
+
+  try {
+    const { data: factors, error: factorsError } =
+      await client.auth.mfa.listFactors();
+    if (factorsError) throw factorsError;
+
+    const factor = factors.totp[0];
+    if (factor) {
+      if (!totpCode) {
+        throw new Error('Enter the code from your authenticator app');
+      }
+      const { error: verifyError } = await client.auth.mfa.challengeAndVerify({
+        factorId: factor.id,
+        code: totpCode,
+      });
+      if (verifyError) throw verifyError;
+    }
+
+    // The database checks this too; asking first names the lists
+    const sharedLists = await fetchOwnedSharedLists(client, userId);
+    if (sharedLists.length > 0) {
+      const names = sharedLists.join(', ');
+      throw new Error(
+        `Delete these shared lists or remove their members first: ${names}`,
+      );
+    }
+
+    // Found now, while the rows pointing at them still exist. Other members'
+    // files on the user's tasks are queued for their own apps to remove
+    const { data: avatars, error: listError } = await client.storage
+      .from(AVATAR_BUCKET)
+      .list(userId);
+    if (listError) throw listError;
+    const uploads = await fetchAll(
+      client,
+      'task_attachments',
+      'user_id',
+      userId,
+    );
+
+    const { error: deleteError } = await client.rpc('delete_account');
+    if (deleteError) throw deleteError;
+
+    // The access token stays valid until it expires, which is long enough
+    await removeFiles(
+      client,
+      AVATAR_BUCKET,
+      avatars.map(file => `${userId}/${file.name}`),
+    );
+    await removeFiles(
+      client,
+      ATTACHMENT_BUCKET,
+      uploads.map(row => row.path as string),
+    );
+  } finally {
+    // Don't leave a signed-in session behind, whatever happened
+    await client.auth.signOut({ scope: 'local' });
+  }
+};
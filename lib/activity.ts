@@ -0,0 +1,105 @@
+import { supabase } from './supabase';
+import { formatTaskValue } from './taskQuery';
+
+export const ACTIVITY_ACTIONS = [
+  'created',
+  'updated',
+  'completed',
+  'reopened',
+  'deleted',
+  'restored',
+  'purged',
+] as const;
+export type ActivityAction = (typeof ACTIVITY_ACTIONS)[number];
+
+export interface ActivityChange {
+  old: unknown;
+  new: unknown;
+}
+
+// A row of `task_activity`, written by a trigger on `tasks`
+export interface ActivityEntry {
+  id: string;
+  task_id: string;
+  actor_id: string | null;
+  // Copied when the change was made
+  actor_name: string | null;
+  action: ActivityAction;
+  // The fields that changed, keyed by column
+  changes: Record<string, ActivityChange> | null;
+  created_at: string;
+}
+
+// Display overrides for values stored as ids, e.g. category names
+export type ValueFormatters = Partial<
+  Record<string, (value: unknown) => string>
+>;
+
+const ACTION_LABELS: Record<ActivityAction, string> = {
+  created: 'created the task',
+  updated: 'edited the task',
+  completed: 'completed the task',
+  reopened: 'reopened the task',
+  deleted: 'moved the task to the Trash',
+  restored: 'restored the task',
+  purged: 'deleted the task for good',
+};
+
+// Columns worth showing; bookkeeping like `completed_at` follows `status`
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  category: 'Category',
+  priority: 'Priority',
+  status: 'Status',
+  due_at: 'Due',
+  reminder_offsets: 'Reminders',
+  assignee_id: 'Assignee',
+};
+
+const isEmpty = (value: unknown) =>
+  value == null || (Array.isArray(value) && value.length === 0);
+
+// Anything not shaped as expected is shown as it was stored
+const formatValue = (field: string, value: unknown) =>
+  formatTaskValue(field, value) ?? String(value);
+
+export const describeAction = (entry: ActivityEntry) =>
+  `${entry.actor_name || 'Someone'} ${ACTION_LABELS[entry.action]}`;
+
+/**
+ * One line per changed field, e.g. "Priority: Medium → High", in the order
+ * the fields appear on the form.
+ */
+export const describeChanges = (
+  entry: ActivityEntry,
+  formatters: ValueFormatters = {},
+) => {
+  const changes = entry.changes ?? {};
+  const display = (field: string, value: unknown) => {
+    if (isEmpty(value)) return 'None';
+    const format = formatters[field];
+    return format ? format(value) : formatValue(field, value);
+  };
+
+  return Object.keys(FIELD_LABELS)
+    .filter(field => field in changes)
+    .map(
+      field =>
+        `${FIELD_LABELS[field]}: ${display(
+          field,
+          changes[field].old,
+        )} → ${display(field, changes[field].new)}`,
+    );
+};
+
+// Newest first; rows outlive the task, so a deleted task keeps its history
+export const fetchActivity = async (taskId: string) => {
+  const { data, error } = await supabase
+    .from('task_activity')
+    .select('*')
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as ActivityEntry[];
+};
@@ -0,0 +1,74 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Keychain from 'react-native-keychain';
+
+export interface AppLockSettings {
+  enabled: boolean;
+  // How long the app may stay in the background before it locks
+  timeoutSeconds: number;
+}
+
+export const LOCK_TIMEOUT_OPTIONS = [
+  { label: 'Immediately', seconds: 0 },
+  { label: '1 min', seconds: 60 },
+  { label: '5 min', seconds: 300 },
+  { label: '15 min', seconds: 900 },
+];
+
+export const DEFAULT_LOCK_SETTINGS: AppLockSettings = {
+  enabled: false,
+  timeoutSeconds: 60,
+};
+
+// Per user, and kept when they log out so the next sign-in is locked too
+const settingsKey = (userId: string) => `app-lock:${userId}`;
+
+// Keychain entry that can only be read after Face ID / fingerprint, or the
+// device passcode; reading it is how the app asks for them
+const LOCK_SERVICE = 'app-lock';
+
+export const loadLockSettings = async (
+  userId: string,
+): Promise<AppLockSettings> => {
+  const stored = await AsyncStorage.getItem(settingsKey(userId));
+  return stored
+    ? { ...DEFAULT_LOCK_SETTINGS, ...JSON.parse(stored) }
+    : DEFAULT_LOCK_SETTINGS;
+};
+
+export const saveLockSettings = (userId: string, settings: AppLockSettings) =>
+  AsyncStorage.setItem(settingsKey(userId), JSON.stringify(settings));
+
+export const isDeviceAuthAvailable = async () =>
+  (await Keychain.getSupportedBiometryType()) !== null ||
+  (await Keychain.isPasscodeAuthAvailable());
+
+export const createLockEntry = async () => {
+  const result = await Keychain.setGenericPassword('app-lock', 'unlock', {
+    service: LOCK_SERVICE,
+    accessControl: Keychain.ACCESS_CONTROL.BIOMETRY_ANY_OR_DEVICE_PASSCODE,
+    accessible: Keychain.ACCESSIBLE.WHEN_PASSCODE_SET_THIS_DEVICE_ONLY,
+  });
+  if (!result) {
+    throw new Error('Failed to set up app lock');
+  }
+};
+
+export const removeLockEntry = () =>
+  Keychain.resetGenericPassword({ service: LOCK_SERVICE });
+
+// Resolves false if the user cancels or fails the prompt
+export const authenticate = async (title: string) => {
+  try {
+    // Entries don't survive a Keychain reset, e.g. after a device restore
+    if (!(await Keychain.hasGenericPassword({ service: LOCK_SERVICE }))) {
+      await createLockEntry();
+    }
+    const result = await Keychain.getGenericPassword({
+      service: LOCK_SERVICE,
+      authenticationPrompt: { title },
+    });
+    return !!result;
+  } catch {
+    return false;
+  }
+};
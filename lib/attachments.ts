@@ -0,0 +1,217 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Upload } from 'tus-js-client';
+import { getSupabaseUrl, supabase } from './supabase';
+import { ATTACHMENT_BUCKET } from './storage';
+
+// Supabase's resumable endpoint only accepts 6 MB chunks
+const CHUNK_SIZE = 6 * 1024 * 1024;
+
+// tus-js-client reads files from their uri in React Native, which its types
+// leave out
+interface ReactNativeFile {
+  uri: string;
+}
+const NativeUpload = Upload as unknown as new (
+  file: ReactNativeFile,
+  options: ConstructorParameters<typeof Upload>[1],
+) => Upload;
+
+// How long thumbnail and download links stay valid
+export const SIGNED_URL_SECONDS = 60 * 60;
+
+export interface Attachment {
+  id: string;
+  task_id: string;
+  // Who uploaded it
+  user_id: string;
+  // Object name in the attachments bucket
+  path: string;
+  name: string;
+  mime_type: string;
+  size: number | null;
+  created_at?: string;
+}
+
+// A file picked on this device that hasn't finished uploading
+export interface PendingUpload {
+  id: string;
+  taskId: string;
+  uri: string;
+  name: string;
+  mimeType: string;
+  size: number | null;
+  path: string;
+  // Where tus can pick the upload up again, once the server has created it
+  uploadUrl?: string | null;
+  // Fraction uploaded, 0 to 1
+  progress: number;
+  error?: string;
+}
+
+export interface PickedFile {
+  uri: string;
+  name?: string | null;
+  type?: string | null;
+  size?: number | null;
+}
+
+// Persisted per user so uploads carry on after the app was closed
+const uploadsKey = (userId: string) => `attachments:uploads:${userId}`;
+
+export const loadPendingUploads = async (
+  userId: string,
+): Promise<PendingUpload[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(uploadsKey(userId));
+    return raw ? JSON.parse(raw) : [];
+  } catch (err) {
+    console.error('Error reading pending uploads:', err);
+    return [];
+  }
+};
+
+export const savePendingUploads = (userId: string, uploads: PendingUpload[]) =>
+  AsyncStorage.setItem(uploadsKey(userId), JSON.stringify(uploads));
+
+export const isImage = (attachment: Pick<Attachment, 'mime_type'>) =>
+  attachment.mime_type.startsWith('image/');
+
+/**
+ * Prepares a picked file for upload under the user's folder. The name gets a
+ * timestamp so the same photo can be attached twice.
+ */
+export const createPendingUpload = (
+  userId: string,
+  taskId: string,
+  file: PickedFile,
+): PendingUpload => {
+  const id = `${Date.now().toString(36)}-${Math.random()
+    .toString(36)
+    .slice(2, 8)}`;
+  const name = file.name || file.uri.split('/').pop() || 'file';
+  return {
+    id,
+    taskId,
+    uri: file.uri,
+    name,
+    mimeType: file.type || 'application/octet-stream',
+    size: file.size ?? null,
+    path: `${userId}/${taskId}/${id}-${name.replace(/[^\w.-]+/g, '_')}`,
+    progress: 0,
+  };
+};
+
+/**
+ * Sends a file to Storage with the tus resumable protocol, carrying on from
+ * `uploadUrl` when there is one. Interrupted chunks are retried, and each
+ * request reads the current session so a token that expired while the app
+ * was in the background is refreshed first.
+ */
+export const startUpload = (
+  pending: PendingUpload,
+  handlers: {
+    onUploadUrl: (uploadUrl: string) => void;
+    onProgress: (progress: number) => void;
+    onSuccess: () => void;
+    onError: (error: Error) => void;
+  },
+) => {
+  const upload = new NativeUpload(
+    { uri: pending.uri },
+    {
+      endpoint: `${getSupabaseUrl()}/storage/v1/upload/resumable`,
+      uploadUrl: pending.uploadUrl ?? null,
+      retryDelays: [0, 3000, 5000, 10000, 20000],
+      chunkSize: CHUNK_SIZE,
+      uploadDataDuringCreation: true,
+      // The upload URL is kept with the pending upload instead
+      storeFingerprintForResuming: false,
+      metadata: {
+        bucketName: ATTACHMENT_BUCKET,
+        objectName: pending.path,
+        contentType: pending.mimeType,
+        cacheControl: '3600',
+      },
+      onBeforeRequest: async request => {
+        const {
+          data: { session },
+        } = await supabase.auth.getSession();
+        request.setHeader('authorization', `Bearer ${session?.access_token}`);
+      },
+      onUploadUrlAvailable: () => {
+        if (upload.url) handlers.onUploadUrl(upload.url);
+      },
+      onProgress: (sent, total) =>
+        handlers.onProgress(total ? sent / total : 0),
+      onSuccess: handlers.onSuccess,
+      onError: handlers.onError,
+    },
+  );
+  upload.start();
+  return upload;
+};
+
+// Records a finished upload so the task's members can find it
+export const saveAttachment = async (pending: PendingUpload) => {
+  const { data, error } = await supabase
+    .from('task_attachments')
+    .insert([
+      {
+        task_id: pending.taskId,
+        path: pending.path,
+        name: pending.name,
+        mime_type: pending.mimeType,
+        size: pending.size,
+      },
+    ])
+    .select()
+    .single();
+
+  if (error) {
+    // Most likely the task was deleted meanwhile, so drop the orphaned file
+    await supabase.storage.from(ATTACHMENT_BUCKET).remove([pending.path]);
+    throw error;
+  }
+  return data as Attachment;
+};
+
+export const signAttachmentUrls = async (attachments: Attachment[]) => {
+  if (attachments.length === 0) return {};
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUrls(
+      attachments.map(attachment => attachment.path),
+      SIGNED_URL_SECONDS,
+    );
+
+  if (error) throw error;
+  const urls: Record<string, string> = {};
+  data.forEach(({ path, signedUrl }) => {
+    if (path && signedUrl) urls[path] = signedUrl;
+  });
+  return urls;
+};
+
+/**
+ * Removes the user's uploads whose task was deleted from the Trash. The
+ * database can't delete stored files, so it queues them in
+ * `attachment_cleanup` for the uploader's app to remove.
+ */
+export const removeOrphanedFiles = async () => {
+  const { data, error } = await supabase
+    .from('attachment_cleanup')
+    .select('path');
+
+  if (error || !data || data.length === 0) return { error };
+  const paths = data.map(row => row.path);
+  const { error: removeError } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .remove(paths);
+  if (removeError) return { error: removeError };
+
+  const { error: deleteError } = await supabase
+    .from('attachment_cleanup')
+    .delete()
+    .in('path', paths);
+  return { error: deleteError };
+};
@@ -0,0 +1,27 @@
+import type { Provider } from '@supabase/supabase-js';
+
+// `magicLink` emails a sign-in link, `otp` emails a 6-digit code. Both
+// create the account on first use, so sign-up only applies to passwords.
+export type AuthMethod = 'password' | 'magicLink' | 'otp';
+
+export const AUTH_METHOD_LABELS: Record<AuthMethod, string> = {
+  password: 'Password',
+  magicLink: 'Magic Link',
+  otp: 'Code',
+};
+
+/**
+ * Sign-in methods offered on the auth screen; the first is the default.
+ * Remove `password` to make a deployment passwordless. The `otp` method
+ * needs `{{ .Token }}` in the Magic Link email template.
+ */
+export const AUTH_METHODS: AuthMethod[] = ['password', 'magicLink', 'otp'];
+
+export const OAUTH_PROVIDER_LABELS: Partial<Record<Provider, string>> = {
+  google: 'Google',
+  apple: 'Apple',
+  github: 'GitHub',
+};
+
+// Each provider must also be enabled under Authentication > Providers
+export const OAUTH_PROVIDERS: Provider[] = ['google', 'apple', 'github'];
@@ -0,0 +1,109 @@
+import { Linking } from 'react-native';
+import type { EmailOtpType, Provider } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+// Must also be listed under Authentication > URL Configuration > Redirect URLs
+export const AUTH_REDIRECT_URL = 'reactnativesupabase://auth/callback';
+export const RESET_PASSWORD_URL = 'reactnativesupabase://auth/reset-password';
+
+export type AuthLinkType = 'recovery' | 'signup' | 'other';
+
+const parseParams = (url: string) => {
+  const params: Record<string, string> = {};
+  // Tokens arrive in the fragment (implicit flow) or the query (PKCE, token hash)
+  const [withoutHash, hash = ''] = url.split('#');
+  const query = withoutHash.split('?')[1] ?? '';
+
+  [query, hash].forEach(part =>
+    part
+      .split('&')
+      .filter(Boolean)
+      .forEach(pair => {
+        const [key, value = ''] = pair.split('=');
+        params[decodeURIComponent(key)] = decodeURIComponent(
+          value.replace(/\+/g, ' '),
+        );
+      }),
+  );
+  return params;
+};
+
+const toLinkType = (type?: string): AuthLinkType => {
+  if (type === 'recovery') return 'recovery';
+  if (type === 'signup' || type === 'email') return 'signup';
+  return 'other';
+};
+
+export const isAuthLink = (url: string) =>
+  url.startsWith(AUTH_REDIRECT_URL) || url.startsWith(RESET_PASSWORD_URL);
+
+/**
+ * Turns a confirmation or password recovery link into a session. Supports
+ * the default links (tokens in the fragment), PKCE links (`?code=`) and
+ * custom email templates that send a `token_hash`. Throws if the link is
+ * expired or otherwise rejected.
+ */
+export const createSessionFromUrl = async (
+  url: string,
+): Promise<AuthLinkType> => {
+  const params = parseParams(url);
+
+  if (params.error_description || params.error) {
+    throw new Error(params.error_description || params.error);
+  }
+
+  // Recovery links always land on the reset path, whatever flow sent them
+  const type = url.startsWith(RESET_PASSWORD_URL)
+    ? 'recovery'
+    : toLinkType(params.type);
+
+  if (params.code) {
+    const { error } = await supabase.auth.exchangeCodeForSession(params.code);
+    if (error) throw error;
+    return type;
+  }
+
+  if (params.token_hash) {
+    const { error } = await supabase.auth.verifyOtp({
+      token_hash: params.token_hash,
+      type: (params.type as EmailOtpType) || 'email',
+    });
+    if (error) throw error;
+    return type;
+  }
+
+  if (params.access_token && params.refresh_token) {
+    const { error } = await supabase.auth.setSession({
+      access_token: params.access_token,
+      refresh_token: params.refresh_token,
+    });
+    if (error) throw error;
+    return type;
+  }
+
+  throw new Error('This link is invalid or has already been used');
+};
+
+/**
+ * Opens the provider's sign-in page in the system browser. The provider
+ * redirects back to AUTH_REDIRECT_URL with a code, which the app's link
+ * handler exchanges for a session.
+ */
+export const signInWithProvider = async (provider: Provider) => {
+  const { data, error } = await supabase.auth.signInWithOAuth({
+    provider,
+    options: { redirectTo: AUTH_REDIRECT_URL, skipBrowserRedirect: true },
+  });
+  if (error) throw error;
+  await Linking.openURL(data.url);
+};
+
+// Same as signInWithProvider, but adds the identity to the signed-in user
+export const linkProvider = async (provider: Provider) => {
+  const { data, error } = await supabase.auth.linkIdentity({
+    provider,
+    options: { redirectTo: AUTH_REDIRECT_URL, skipBrowserRedirect: true },
+  });
+  if (error) throw error;
+  await Linking.openURL(data.url);
+};
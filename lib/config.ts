@@ -0,0 +1,117 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  APP_FLAVOR,
+  DEV_SUPABASE_URL,
+  DEV_SUPABASE_ANON_KEY,
+  STAGING_SUPABASE_URL,
+  STAGING_SUPABASE_ANON_KEY,
+  PROD_SUPABASE_URL,
+  PROD_SUPABASE_ANON_KEY,
+  LOCAL_SUPABASE_URL,
+  LOCAL_SUPABASE_ANON_KEY,
+} from '@env';
+
+export const FLAVORS = ['dev', 'staging', 'prod', 'local'] as const;
+export type Flavor = (typeof FLAVORS)[number];
+
+export const FLAVOR_LABELS: Record<Flavor, string> = {
+  dev: 'Development',
+  staging: 'Staging',
+  prod: 'Production',
+  local: 'Local',
+};
+
+export interface AppConfig {
+  flavor: Flavor;
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+}
+
+// Filled in from .env at build time, see .env.example
+const PROJECTS: Record<Flavor, { url?: string; anonKey?: string }> = {
+  dev: { url: DEV_SUPABASE_URL, anonKey: DEV_SUPABASE_ANON_KEY },
+  staging: { url: STAGING_SUPABASE_URL, anonKey: STAGING_SUPABASE_ANON_KEY },
+  prod: { url: PROD_SUPABASE_URL, anonKey: PROD_SUPABASE_ANON_KEY },
+  local: { url: LOCAL_SUPABASE_URL, anonKey: LOCAL_SUPABASE_ANON_KEY },
+};
+
+// Debug builds remember the project picked in the developer switcher
+const FLAVOR_OVERRIDE_KEY = 'config:flavor';
+
+let activeConfig: AppConfig | null = null;
+
+const isFlavor = (value: string): value is Flavor =>
+  (FLAVORS as readonly string[]).includes(value);
+
+export const getBuildFlavor = (): Flavor => {
+  const flavor = APP_FLAVOR || 'dev';
+  if (!isFlavor(flavor)) {
+    throw new Error(
+      `APP_FLAVOR is "${flavor}", expected one of: ${FLAVORS.join(', ')}`,
+    );
+  }
+  return flavor;
+};
+
+export const isFlavorConfigured = (flavor: Flavor) =>
+  !!PROJECTS[flavor].url && !!PROJECTS[flavor].anonKey;
+
+/**
+ * Returns the Supabase project for a flavor, or throws an error naming the
+ * missing or malformed .env values.
+ */
+export const resolveConfig = (flavor: Flavor): AppConfig => {
+  const { url, anonKey } = PROJECTS[flavor];
+  const prefix = flavor.toUpperCase();
+
+  const missing = [
+    !url && `${prefix}_SUPABASE_URL`,
+    !anonKey && `${prefix}_SUPABASE_ANON_KEY`,
+  ].filter(Boolean);
+  if (!url || !anonKey) {
+    throw new Error(
+      `${missing.join(' and ')} ${
+        missing.length > 1 ? 'are' : 'is'
+      } not set for the ${FLAVOR_LABELS[flavor]} project. Add ${
+        missing.length > 1 ? 'them' : 'it'
+      } to .env and rebuild.`,
+    );
+  }
+
+  if (!/^https?:\/\/[^\s]+$/.test(url)) {
+    throw new Error(`${prefix}_SUPABASE_URL must be an http(s) URL: "${url}"`);
+  }
+
+  return { flavor, supabaseUrl: url, supabaseAnonKey: anonKey };
+};
+
+/**
+ * Picks the build's flavor (or, in debug builds, the one chosen in the
+ * developer switcher) and validates its settings. Called once at startup,
+ * before the Supabase client exists.
+ */
+export const loadConfig = async (): Promise<AppConfig> => {
+  let flavor = getBuildFlavor();
+
+  if (__DEV__) {
+    const override = await AsyncStorage.getItem(FLAVOR_OVERRIDE_KEY);
+    if (override && isFlavor(override)) {
+      flavor = override;
+    }
+  }
+
+  activeConfig = resolveConfig(flavor);
+  return activeConfig;
+};
+
+// Null until loadConfig has succeeded
+export const getActiveConfig = () => activeConfig;
+
+// Takes effect on the next launch; null goes back to the build's flavor
+export const setFlavorOverride = async (flavor: Flavor | null) => {
+  if (flavor) {
+    await AsyncStorage.setItem(FLAVOR_OVERRIDE_KEY, flavor);
+  } else {
+    await AsyncStorage.removeItem(FLAVOR_OVERRIDE_KEY);
+  }
+};
@@ -0,0 +1,24 @@
+import { supabase } from './supabase';
+
+// Authenticator apps show 6-digit codes
+export const TOTP_CODE_LENGTH = 6;
+
+/**
+ * True when the account has a verified authenticator app but the session
+ * was created without it (password, email link or OAuth only), so a code
+ * is needed before the app may load the user's data. Reads the stored
+ * session, so it works offline.
+ */
+export const needsMfaChallenge = async () => {
+  const { data, error } =
+    await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+  if (error) throw error;
+  return data.nextLevel === 'aal2' && data.currentLevel !== 'aal2';
+};
+
+/**
+ * Enrollment returns the QR code as an SVG data URI, which `Image` can't
+ * show; this returns the markup for `SvgXml` instead.
+ */
+export const qrCodeXml = (qrCode: string) =>
+  qrCode.replace(/^data:image\/svg\+xml;utf-8,/, '');
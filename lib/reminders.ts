@@ -0,0 +1,144 @@
+import notifee, {
+  AndroidImportance,
+  AuthorizationStatus,
+  TimestampTrigger,
+  TriggerType,
+} from '@notifee/react-native';
+import type { Item } from '../hooks/useItems';
+import { supabase } from './supabase';
+import { isLocalId } from './taskStore';
+
+// Minutes before the due time
+export const REMINDER_OPTIONS = [
+  { minutes: 0, label: 'At due time' },
+  { minutes: 15, label: '15 min before' },
+  { minutes: 60, label: '1 hour before' },
+  { minutes: 1440, label: '1 day before' },
+] as const;
+
+const CHANNEL_ID = 'task-reminders';
+
+// One notification per task and offset, so they can be found again later
+const notificationId = (itemId: string, minutes: number) =>
+  `${itemId}:${minutes}`;
+
+const itemIdOf = (id: string) => id.slice(0, id.lastIndexOf(':'));
+
+let setupPromise: Promise<boolean> | null = null;
+
+// Asks for permission and creates the Android channel once per launch
+const ensureSetup = () => {
+  if (!setupPromise) {
+    setupPromise = (async () => {
+      const settings = await notifee.requestPermission();
+      await notifee.createChannel({
+        id: CHANNEL_ID,
+        name: 'Task reminders',
+        importance: AndroidImportance.HIGH,
+      });
+      return settings.authorizationStatus >= AuthorizationStatus.AUTHORIZED;
+    })().catch(err => {
+      setupPromise = null;
+      throw err;
+    });
+  }
+  return setupPromise;
+};
+
+const describeOffset = (minutes: number) =>
+  REMINDER_OPTIONS.find(option => option.minutes === minutes)?.label ??
+  `${minutes} min before`;
+
+const cancelFor = async (itemIds: string[]) => {
+  const ids = await notifee.getTriggerNotificationIds();
+  const prefixes = itemIds.map(itemId => `${itemId}:`);
+  await notifee.cancelTriggerNotifications(
+    ids.filter(id => prefixes.some(prefix => id.startsWith(prefix))),
+  );
+};
+
+export const cancelReminders = async (itemId: string) => {
+  try {
+    await cancelFor([itemId]);
+  } catch (err) {
+    console.error('Error cancelling reminders:', err);
+  }
+};
+
+const scheduleFor = (item: Item) => {
+  const dueTime = new Date(item.due_at ?? 0).getTime();
+  const upcoming = (item.reminder_offsets ?? []).filter(
+    minutes => item.due_at && dueTime - minutes * 60 * 1000 > Date.now(),
+  );
+
+  return upcoming.map(minutes => {
+    const trigger: TimestampTrigger = {
+      type: TriggerType.TIMESTAMP,
+      timestamp: dueTime - minutes * 60 * 1000,
+    };
+    return notifee.createTriggerNotification(
+      {
+        id: notificationId(item.id, minutes),
+        title: item.title,
+        body:
+          minutes === 0
+            ? 'This task is due now'
+            : `Due soon (${describeOffset(minutes).toLowerCase()})`,
+        data: { taskId: item.id },
+        android: { channelId: CHANNEL_ID, pressAction: { id: 'default' } },
+      },
+      trigger,
+    );
+  });
+};
+
+/**
+ * Makes the scheduled notifications for the given tasks match their current
+ * due dates and reminder offsets. Reminders whose time has already passed,
+ * and those for finished tasks, are skipped.
+ */
+export const syncReminders = async (items: Item[]) => {
+  if (items.length === 0) return;
+  try {
+    await cancelFor(items.map(item => item.id));
+
+    const withReminders = items.filter(
+      item =>
+        item.status !== 'done' && item.due_at && item.reminder_offsets?.length,
+    );
+    if (withReminders.length === 0 || !(await ensureSetup())) return;
+
+    await Promise.all(withReminders.flatMap(scheduleFor));
+  } catch (err) {
+    console.error('Error scheduling reminders:', err);
+  }
+};
+
+/**
+ * Cancels reminders for tasks that were deleted, moved to the Trash or
+ * finished elsewhere. Reminders can belong to any list or page, so every
+ * scheduled one is checked against the server rather than just the tasks
+ * that were fetched. `skipIds` are tasks with local changes still queued.
+ */
+export const pruneReminders = async (skipIds: string[] = []) => {
+  try {
+    const scheduled = await notifee.getTriggerNotificationIds();
+    const itemIds = [...new Set(scheduled.map(itemIdOf))].filter(
+      id => !isLocalId(id) && !skipIds.includes(id),
+    );
+    if (itemIds.length === 0) return;
+
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('id')
+      .in('id', itemIds)
+      .is('deleted_at', null)
+      .neq('status', 'done');
+
+    if (error) throw error;
+    const live = new Set((data || []).map(row => row.id));
+    await cancelFor(itemIds.filter(id => !live.has(id)));
+  } catch (err) {
+    console.error('Error pruning reminders:', err);
+  }
+};
@@ -0,0 +1,168 @@
+import 'react-native-get-random-values';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Keychain from 'react-native-keychain';
+import aesjs from 'aes-js';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha2';
+
+/**
+ * The storage interface Supabase auth persists sessions through, plus
+ * `clear` to remove everything the adapter holds.
+ */
+export interface SessionStorage {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+// Keychain service holding the key the cipher and MAC keys are derived from
+const KEY_SERVICE = 'supabase-session-key';
+// Encrypted values live under this prefix; unprefixed keys are the plain
+// sessions saved by earlier versions
+const ENCRYPTED_PREFIX = 'session:encrypted:';
+
+interface SessionKeys {
+  cipherKey: Uint8Array;
+  macKey: Uint8Array;
+}
+
+let sessionKeys: Promise<SessionKeys | null> | null = null;
+
+// Separate keys for encrypting and signing, so neither is used twice
+const deriveKeys = (key: Uint8Array): SessionKeys => ({
+  cipherKey: hmac(sha256, key, aesjs.utils.utf8.toBytes('session:encrypt')),
+  macKey: hmac(sha256, key, aesjs.utils.utf8.toBytes('session:mac')),
+});
+
+// Null when there's no key yet, or it was lost (e.g. a restored backup).
+// Keychain errors, like a device not yet unlocked since a reboot, are thrown
+// so the session is read again later
+const loadKeys = () => {
+  if (!sessionKeys) {
+    sessionKeys = Keychain.getGenericPassword({ service: KEY_SERVICE }).then(
+      // hex.toBytes gives a plain array, which the HMAC doesn't accept
+      stored =>
+        stored
+          ? deriveKeys(
+              Uint8Array.from(aesjs.utils.hex.toBytes(stored.password)),
+            )
+          : null,
+      error => {
+        sessionKeys = null;
+        throw error;
+      },
+    );
+  }
+  return sessionKeys;
+};
+
+const encryptedKeys = async () =>
+  (await AsyncStorage.getAllKeys()).filter(key =>
+    key.startsWith(ENCRYPTED_PREFIX),
+  );
+
+// Only made when no key exists. Anything encrypted under a lost key can't be
+// read again, so it's removed first rather than left behind
+const createKeys = async () => {
+  await AsyncStorage.multiRemove(await encryptedKeys());
+  const key = crypto.getRandomValues(new Uint8Array(32));
+  await Keychain.setGenericPassword('session', aesjs.utils.hex.fromBytes(key), {
+    service: KEY_SERVICE,
+    // Tokens refresh in the background, so the key must be readable while
+    // the device is locked
+    accessible: Keychain.ACCESSIBLE.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+  });
+  const keys = deriveKeys(key);
+  sessionKeys = Promise.resolve(keys);
+  return keys;
+};
+
+const sign = (macKey: Uint8Array, message: string) =>
+  hmac(sha256, macKey, aesjs.utils.utf8.toBytes(message));
+
+// Compares every byte, so the time taken doesn't reveal where they differ
+const isSameMac = (a: Uint8Array, b: Uint8Array) =>
+  a.length === b.length &&
+  a.reduce((diff, byte, i) => diff + Number(byte !== b[i]), 0) === 0;
+
+// AES-256-CTR with a random initial counter per write, then an HMAC-SHA256
+// of both, stored as `iv:data:mac`
+const encrypt = ({ cipherKey, macKey }: SessionKeys, value: string) => {
+  const iv = crypto.getRandomValues(new Uint8Array(16));
+  const cipher = new aesjs.ModeOfOperation.ctr(
+    cipherKey,
+    new aesjs.Counter(iv),
+  );
+  const data = cipher.encrypt(aesjs.utils.utf8.toBytes(value));
+  const payload = [iv, data]
+    .map(bytes => aesjs.utils.hex.fromBytes(bytes))
+    .join(':');
+  return `${payload}:${aesjs.utils.hex.fromBytes(sign(macKey, payload))}`;
+};
+
+// Throws unless the MAC matches, before anything is decrypted
+const decrypt = ({ cipherKey, macKey }: SessionKeys, stored: string) => {
+  const [iv, data, mac] = stored.split(':');
+  if (
+    !mac ||
+    !isSameMac(aesjs.utils.hex.toBytes(mac), sign(macKey, `${iv}:${data}`))
+  ) {
+    throw new Error('Stored session failed its integrity check');
+  }
+
+  const cipher = new aesjs.ModeOfOperation.ctr(
+    cipherKey,
+    new aesjs.Counter(aesjs.utils.hex.toBytes(iv)),
+  );
+  return aesjs.utils.utf8.fromBytes(
+    cipher.decrypt(aesjs.utils.hex.toBytes(data)),
+  );
+};
+
+/**
+ * Encrypts and signs sessions with a key held in the iOS Keychain / Android
+ * Keystore. The ciphertext stays in AsyncStorage, since Keychain entries are
+ * small. Plain sessions left by earlier versions are encrypted on first read.
+ */
+export const secureStorage: SessionStorage = {
+  getItem: async key => {
+    const encrypted = await AsyncStorage.getItem(ENCRYPTED_PREFIX + key);
+    if (encrypted) {
+      const keys = await loadKeys();
+      if (keys) {
+        try {
+          return decrypt(keys, encrypted);
+        } catch (error) {
+          // Changed on disk, so it can't be trusted
+          console.error('Error decrypting session:', error);
+        }
+      }
+      // Tampered with, or saved under a key that's since gone. Either way
+      // the user signs in again
+      await AsyncStorage.removeItem(ENCRYPTED_PREFIX + key);
+      return null;
+    }
+
+    const legacy = await AsyncStorage.getItem(key);
+    if (legacy !== null) {
+      await secureStorage.setItem(key, legacy);
+      await AsyncStorage.removeItem(key);
+    }
+    return legacy;
+  },
+  setItem: async (key, value) => {
+    const keys = (await loadKeys()) ?? (await createKeys());
+    await AsyncStorage.setItem(ENCRYPTED_PREFIX + key, encrypt(keys, value));
+  },
+  removeItem: async key => {
+    await AsyncStorage.multiRemove([ENCRYPTED_PREFIX + key, key]);
+  },
+  // Removes every encrypted value and the key itself; a new key is made on
+  // the next sign-in
+  clear: async () => {
+    await AsyncStorage.multiRemove(await encryptedKeys());
+    sessionKeys = null;
+    await Keychain.resetGenericPassword({ service: KEY_SERVICE });
+  },
+};
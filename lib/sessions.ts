@@ -0,0 +1,42 @@
+import { supabase } from './supabase';
+
+export interface DeviceSession {
+  id: string;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: string;
+  last_active_at: string;
+  // The session this device is using
+  is_current: boolean;
+}
+
+// Both functions are defined in the database, see "Profiles" in the README
+export const listSessions = async (): Promise<DeviceSession[]> => {
+  const { data, error } = await supabase.rpc('list_sessions');
+  if (error) throw error;
+  return data || [];
+};
+
+export const revokeSession = async (sessionId: string) => {
+  const { error } = await supabase.rpc('revoke_session', {
+    session_id: sessionId,
+  });
+  if (error) throw error;
+};
+
+export const revokeOtherSessions = async () => {
+  const { error } = await supabase.auth.signOut({ scope: 'others' });
+  if (error) throw error;
+};
+
+// User agents are long; the app or browser and the OS are enough to tell
+// devices apart
+export const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return 'Unknown device';
+  const platform =
+    /iPhone|iPad/.exec(userAgent)?.[0] ??
+    (/Android/.test(userAgent) ? 'Android' : null) ??
+    /Macintosh|Windows|Linux/.exec(userAgent)?.[0];
+  const client = userAgent.split(/[\s/]/)[0];
+  return platform ? `${client} on ${platform}` : client;
+};
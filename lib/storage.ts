@@ -0,0 +1,5 @@
+// Public; each avatar sits in a folder named after the user id
+export const AVATAR_BUCKET = 'avatars';
+
+// Private; files sit in "<uploader id>/<task id>/" folders
+export const ATTACHMENT_BUCKET = 'attachments';
@@ -1,16 +1,44 @@
 import 'react-native-url-polyfill/auto';
-import { createClient } from '@supabase/supabase-js';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { AppConfig } from './config';
+import { secureStorage } from './sessionStorage';
 
-const supabaseUrl = 'https://qejlwlshxldaeikgaklv.supabase.co';
-const supabaseAnonKey = 'sb_publishable_L0OQQeL9S0mcmObLcJgOBA_4OpXeLWo';
+// Assigned by initSupabase once the config has loaded, see ConfigGate
+export let supabase: SupabaseClient;
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-  auth: {
-    storage: AsyncStorage,
-    autoRefreshToken: true,
-    persistSession: true,
-    detectSessionInUrl: false,
-  },
-});
+let clientConfig: AppConfig;
 
+export const initSupabase = (config: AppConfig) => {
+  clientConfig = config;
+  supabase = createClient(config.supabaseUrl, config.supabaseAnonKey, {
+    auth: {
+      storage: secureStorage,
+      autoRefreshToken: true,
+      persistSession: true,
+      // OAuth and email links return a one-time code that only this device
+      // can exchange for a session
+      flowType: 'pkce',
+      // No browser URL to read in React Native, see lib/authLinks.ts instead
+      detectSessionInUrl: false,
+    },
+  });
+  return supabase;
+};
+
+// A second client for the same project that keeps its session in memory, so
+// signing in on it (e.g. to confirm a password) leaves the app's session and
+// auth events alone
+export const createDetachedClient = () =>
+  createClient(clientConfig.supabaseUrl, clientConfig.supabaseAnonKey, {
+    auth: {
+      storageKey: 'detached',
+      autoRefreshToken: false,
+      persistSession: false,
+      detectSessionInUrl: false,
+    },
+  });
+
+export const getSupabaseUrl = () => clientConfig.supabaseUrl;
+
+// Removes any stored session and its encryption key, after signing out
+export const clearSessionStorage = () => secureStorage.clear();
@@ -0,0 +1,305 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from './supabase';
+import type { Item } from '../hooks/useItems';
+
+export const PRIORITIES = ['High', 'Medium', 'Low'] as const;
+export type Priority = (typeof PRIORITIES)[number];
+
+export const STATUSES = ['open', 'in_progress', 'done'] as const;
+export type TaskStatus = (typeof STATUSES)[number];
+
+export const isTaskStatus = (value: unknown): value is TaskStatus =>
+  (STATUSES as readonly unknown[]).includes(value);
+
+export const STATUS_LABELS: Record<TaskStatus, string> = {
+  open: 'Open',
+  in_progress: 'In progress',
+  done: 'Done',
+};
+
+/**
+ * A task's status, due date or reminders as the conflict resolver and the
+ * history show them. Null for other fields, or a value not shaped as expected.
+ */
+export const formatTaskValue = (field: string, value: unknown) => {
+  if (field === 'status' && isTaskStatus(value)) {
+    return STATUS_LABELS[value];
+  }
+  if (field === 'due_at' && typeof value === 'string') {
+    return new Date(value).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+  if (field === 'reminder_offsets' && Array.isArray(value)) {
+    return value.map(minutes => `${minutes}m`).join(', ');
+  }
+  return null;
+};
+
+export const SORT_FIELDS = [
+  'created_at',
+  'updated_at',
+  'due_at',
+  'title',
+] as const;
+export type SortField = (typeof SORT_FIELDS)[number];
+
+// `all` and `due_soon` leave out finished tasks. `due_soon` shows overdue
+// tasks and those due within DUE_SOON_HOURS, soonest first; `completed` shows
+// finished tasks, most recently completed first.
+export const TASK_VIEWS = ['all', 'due_soon', 'completed'] as const;
+export type TaskView = (typeof TASK_VIEWS)[number];
+
+export const DUE_SOON_HOURS = 48;
+// Relative created-at ranges, counted in whole days back from today
+export const CREATED_PRESETS = {
+  today: 0,
+  week: 7,
+  month: 30,
+} as const;
+export type CreatedPreset = keyof typeof CREATED_PRESETS;
+
+// Used in place of a list id to show the tasks assigned to the user across
+// every list
+export const ASSIGNED_TO_ME = 'assigned-to-me';
+
+export interface TaskQuery {
+  view: TaskView;
+  // Empty means every priority
+  priorities: Priority[];
+  // A category id
+  categoryId?: string;
+  // Full-text search on the title
+  search?: string;
+  // Resolved when the query runs, so a saved query stays relative to today
+  createdPreset?: CreatedPreset;
+  // ISO timestamps, both inclusive. Ignored while a preset is chosen
+  createdFrom?: string;
+  createdTo?: string;
+  sortBy: SortField;
+  ascending: boolean;
+}
+
+export const DEFAULT_QUERY: TaskQuery = {
+  view: 'all',
+  priorities: [],
+  sortBy: 'created_at',
+  ascending: false,
+};
+
+export const PAGE_SIZE = 50;
+
+const QUERY_KEY = 'tasks:query';
+
+export const loadSavedQuery = async (): Promise<TaskQuery> => {
+  try {
+    const raw = await AsyncStorage.getItem(QUERY_KEY);
+    return raw ? { ...DEFAULT_QUERY, ...JSON.parse(raw) } : DEFAULT_QUERY;
+  } catch (err) {
+    console.error('Error loading saved query:', err);
+    return DEFAULT_QUERY;
+  }
+};
+
+export const saveQuery = (query: TaskQuery) =>
+  AsyncStorage.setItem(QUERY_KEY, JSON.stringify(query));
+
+// True when the query narrows the list rather than just ordering it
+export const hasFilters = (query: TaskQuery) =>
+  query.view !== 'all' ||
+  query.priorities.length > 0 ||
+  !!query.categoryId ||
+  !!query.search ||
+  !!query.createdPreset ||
+  !!query.createdFrom ||
+  !!query.createdTo;
+
+export const startOfDay = (date: Date) => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+};
+
+export const endOfDay = (date: Date) => {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+};
+
+// The created-at bounds the query stands for right now
+export const createdRange = (
+  query: TaskQuery,
+): { from?: string; to?: string } => {
+  if (query.createdPreset) {
+    const from = startOfDay(new Date());
+    from.setDate(from.getDate() - CREATED_PRESETS[query.createdPreset]);
+    return { from: from.toISOString() };
+  }
+  return { from: query.createdFrom, to: query.createdTo };
+};
+
+// Postgres and JS format timestamps differently, so compare them as numbers
+const toTime = (value?: string | null) =>
+  value ? new Date(value).getTime() : 0;
+
+const dueSoonCutoff = () =>
+  new Date(Date.now() + DUE_SOON_HOURS * 60 * 60 * 1000).toISOString();
+
+type OrderField = SortField | 'completed_at';
+
+// Views can override the chosen order
+const effectiveSort = (
+  query: TaskQuery,
+): { sortBy: OrderField; ascending: boolean } => {
+  switch (query.view) {
+    case 'due_soon':
+      return { sortBy: 'due_at', ascending: true };
+    case 'completed':
+      return { sortBy: 'completed_at', ascending: false };
+    default:
+      return { sortBy: query.sortBy, ascending: query.ascending };
+  }
+};
+
+// Quotes a value for use inside a PostgREST `or` filter
+const quoteFilterValue = (value: string) =>
+  `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/**
+ * Translates a query into a Supabase select on `tasks` in a shared list, the
+ * user's own tasks when `listId` is null, or their assigned tasks when it's
+ * `ASSIGNED_TO_ME`, one page at a time. Pages are
+ * keyed on the sort field with `id` as a tie-breaker, so `after` is the last
+ * row of the previous page.
+ */
+export const selectTasks = (
+  userId: string,
+  listId: string | null,
+  query: TaskQuery,
+  after?: Item,
+) => {
+  const { sortBy, ascending } = effectiveSort(query);
+  // Tasks in the Trash are only listed by the Trash screen
+  let builder = supabase.from('tasks').select('*').is('deleted_at', null);
+  if (listId === ASSIGNED_TO_ME) {
+    builder = builder.eq('assignee_id', userId);
+  } else {
+    builder = listId
+      ? builder.eq('list_id', listId)
+      : builder.eq('user_id', userId).is('list_id', null);
+  }
+
+  builder =
+    query.view === 'completed'
+      ? builder.eq('status', 'done')
+      : builder.neq('status', 'done');
+  if (query.view === 'due_soon') {
+    builder = builder.not('due_at', 'is', null).lte('due_at', dueSoonCutoff());
+  }
+
+  if (query.priorities.length > 0) {
+    builder = builder.in('priority', query.priorities);
+  }
+  if (query.categoryId) {
+    builder = builder.eq('category', query.categoryId);
+  }
+  if (query.search) {
+    builder = builder.textSearch('title', query.search, {
+      type: 'websearch',
+      config: 'english',
+    });
+  }
+  const created = createdRange(query);
+  if (created.from) {
+    builder = builder.gte('created_at', created.from);
+  }
+  if (created.to) {
+    builder = builder.lte('created_at', created.to);
+  }
+
+  if (after) {
+    // Rows without a value (e.g. no due date) always come last
+    const op = ascending ? 'gt' : 'lt';
+    const id = quoteFilterValue(after.id);
+    const cursor = after[sortBy];
+    if (cursor == null) {
+      builder = builder.is(sortBy, null).filter('id', op, after.id);
+    } else {
+      const value = quoteFilterValue(String(cursor));
+      builder = builder.or(
+        `${sortBy}.${op}.${value},and(${sortBy}.eq.${value},id.${op}.${id}),${sortBy}.is.null`,
+      );
+    }
+  }
+
+  return builder
+    .order(sortBy, { ascending, nullsFirst: false })
+    .order('id', { ascending })
+    .limit(PAGE_SIZE);
+};
+
+/**
+ * Local equivalent of `selectTasks`, used for the offline cache and to decide
+ * whether realtime changes belong in the current list. Search is a plain
+ * substring match per word rather than Postgres full-text search.
+ */
+export const matchesQuery = (item: Item, query: TaskQuery) => {
+  // Tasks in the Trash are only listed by the Trash screen
+  if (item.deleted_at) return false;
+  if ((query.view === 'completed') !== (item.status === 'done')) {
+    return false;
+  }
+  if (
+    query.view === 'due_soon' &&
+    (!item.due_at || toTime(item.due_at) > toTime(dueSoonCutoff()))
+  ) {
+    return false;
+  }
+  if (
+    query.priorities.length > 0 &&
+    !query.priorities.includes(item.priority as Priority)
+  ) {
+    return false;
+  }
+  if (query.categoryId && item.category !== query.categoryId) {
+    return false;
+  }
+  if (query.search) {
+    const title = item.title.toLowerCase();
+    const words = query.search.toLowerCase().split(/\s+/).filter(Boolean);
+    if (!words.every(word => title.includes(word))) return false;
+  }
+  const createdAt = toTime(item.created_at);
+  const created = createdRange(query);
+  if (created.from && createdAt < toTime(created.from)) {
+    return false;
+  }
+  if (created.to && createdAt > toTime(created.to)) {
+    return false;
+  }
+  return true;
+};
+
+export const sortItems = (items: Item[], query: TaskQuery) => {
+  const { sortBy, ascending } = effectiveSort(query);
+  const direction = ascending ? 1 : -1;
+  return [...items].sort((a, b) => {
+    if (sortBy === 'title') {
+      return a.title.localeCompare(b.title) * direction;
+    }
+    // Match Postgres with NULLS LAST in both directions
+    if (!a[sortBy] || !b[sortBy]) {
+      return (a[sortBy] ? 0 : 1) - (b[sortBy] ? 0 : 1);
+    }
+    return (toTime(a[sortBy]) - toTime(b[sortBy])) * direction;
+  });
+};
+
+export const filterItems = (items: Item[], query: TaskQuery) =>
+  sortItems(
+    items.filter(item => matchesQuery(item, query)),
+    query,
+  );
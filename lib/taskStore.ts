@@ -0,0 +1,165 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Item, ItemFields } from '../hooks/useItems';
+
+// A change made on the device that hasn't reached Supabase yet
+export type PendingMutation =
+  | { kind: 'create'; id: string; fields: ItemFields; createdAt: string }
+  | {
+      kind: 'update';
+      id: string;
+      fields: Partial<ItemFields>;
+      // The row as it was when the edit started, for conflict detection
+      base?: Item;
+      // The row as the list showed it before this change, for rollback
+      snapshot?: Item;
+    }
+  | { kind: 'delete'; id: string; snapshot?: Item };
+
+const LOCAL_ID_PREFIX = 'local-';
+
+// Storage is namespaced per user so a shared device never mixes accounts
+const cacheKey = (userId: string) => `tasks:cache:${userId}`;
+const queueKey = (userId: string) => `tasks:queue:${userId}`;
+
+export const createLocalId = () =>
+  `${LOCAL_ID_PREFIX}${Date.now().toString(36)}-${Math.random()
+    .toString(36)
+    .slice(2, 8)}`;
+
+export const isLocalId = (id: string) => id.startsWith(LOCAL_ID_PREFIX);
+
+const readJson = async <T>(key: string, fallback: T): Promise<T> => {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (err) {
+    console.error(`Error reading ${key}:`, err);
+    return fallback;
+  }
+};
+
+export const loadCachedItems = (userId: string) =>
+  readJson<Item[]>(cacheKey(userId), []);
+
+export const saveCachedItems = (userId: string, items: Item[]) =>
+  AsyncStorage.setItem(cacheKey(userId), JSON.stringify(items));
+
+export const updateCachedItems = async (
+  userId: string,
+  update: (items: Item[]) => Item[],
+) => saveCachedItems(userId, update(await loadCachedItems(userId)));
+
+// Upserts rows by id, keeping anything the update didn't mention
+export const mergeItems = (items: Item[], rows: Item[]) => {
+  const ids = new Set(rows.map(row => row.id));
+  return [...rows, ...items.filter(item => !ids.has(item.id))];
+};
+
+export const loadQueue = (userId: string) =>
+  readJson<PendingMutation[]>(queueKey(userId), []);
+
+export const saveQueue = (userId: string, queue: PendingMutation[]) =>
+  AsyncStorage.setItem(queueKey(userId), JSON.stringify(queue));
+
+/**
+ * Appends a mutation, folding it into an earlier one for the same item that
+ * has not been sent yet. `inFlight` is never folded into, since the server
+ * may already be applying it.
+ */
+export const enqueueMutation = (
+  queue: PendingMutation[],
+  mutation: PendingMutation,
+  inFlight: PendingMutation | null = null,
+): PendingMutation[] => {
+  const pendingCreate = queue.find(
+    (m): m is Extract<PendingMutation, { kind: 'create' }> =>
+      m !== inFlight && m.kind === 'create' && m.id === mutation.id,
+  );
+
+  if (pendingCreate && mutation.kind === 'update') {
+    return queue.map(m =>
+      m === pendingCreate
+        ? {
+            ...pendingCreate,
+            fields: { ...pendingCreate.fields, ...mutation.fields },
+          }
+        : m,
+    );
+  }
+
+  if (pendingCreate && mutation.kind === 'delete') {
+    // The server never saw this item, so there is nothing left to send
+    return queue.filter(m => m.id !== mutation.id);
+  }
+
+  const pendingUpdate = queue.find(
+    (m): m is Extract<PendingMutation, { kind: 'update' }> =>
+      m !== inFlight && m.kind === 'update' && m.id === mutation.id,
+  );
+
+  if (pendingUpdate && mutation.kind === 'update') {
+    // Keep the first edit's base so the conflict check still compares
+    // against what the server had
+    return queue.map(m =>
+      m === pendingUpdate
+        ? {
+            ...pendingUpdate,
+            fields: { ...pendingUpdate.fields, ...mutation.fields },
+          }
+        : m,
+    );
+  }
+
+  return [...queue, mutation];
+};
+
+/**
+ * Points queued mutations at a row the server just returned: offline creates
+ * switch to the server id, and later edits are based on the new version so
+ * they don't conflict with our own write.
+ */
+export const rebaseQueue = (
+  queue: PendingMutation[],
+  fromId: string,
+  row: Item,
+): PendingMutation[] =>
+  queue.map(m => {
+    if (m.id !== fromId) return m;
+    return m.kind === 'update' && m.base
+      ? {
+          ...m,
+          id: row.id,
+          base: { ...m.base, id: row.id, updated_at: row.updated_at },
+        }
+      : { ...m, id: row.id };
+  });
+
+/**
+ * Overlays pending mutations on a list of items. Safe to apply more than once
+ * to the same list.
+ */
+export const applyMutations = (
+  items: Item[],
+  queue: PendingMutation[],
+): Item[] =>
+  queue.reduce<Item[]>((acc, mutation) => {
+    switch (mutation.kind) {
+      case 'create':
+        return acc.some(item => item.id === mutation.id)
+          ? acc
+          : [
+              {
+                id: mutation.id,
+                ...mutation.fields,
+                created_at: mutation.createdAt,
+              },
+              ...acc,
+            ];
+      case 'update':
+        return acc.map(item =>
+          item.id === mutation.id ? { ...item, ...mutation.fields } : item,
+        );
+      case 'delete':
+        return acc.filter(item => item.id !== mutation.id);
+    }
+  }, items);
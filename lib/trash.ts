@@ -0,0 +1,60 @@
+import type { Item } from '../hooks/useItems';
+import { supabase } from './supabase';
+import { removeOrphanedFiles } from './attachments';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long deleted tasks stay in the Trash, as set in the database
+export const fetchRetentionDays = async () => {
+  const { data, error } = await supabase.rpc('trash_retention_days');
+
+  if (error) throw error;
+  return data as number;
+};
+
+// Whole days left before the purge job removes a task, never below zero
+export const daysUntilPurge = (
+  deletedAt: string,
+  retentionDays: number,
+  now = Date.now(),
+) =>
+  Math.max(
+    0,
+    Math.ceil((Date.parse(deletedAt) + retentionDays * DAY_MS - now) / DAY_MS),
+  );
+
+// Every deleted task the user can see, most recently deleted first
+export const fetchTrash = async () => {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('*')
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as Item[];
+};
+
+export const restoreTask = async (id: string) => {
+  const { error } = await supabase
+    .from('tasks')
+    .update({ deleted_at: null })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Deletes a task in the Trash for good. The row goes first, so a failure
+ * can't leave a task behind without its files; the database then queues the
+ * files like a purged task's, and the user's own uploads are removed here.
+ */
+export const deleteTaskForever = async (id: string) => {
+  const { error } = await supabase.from('tasks').delete().eq('id', id);
+  if (error) throw error;
+
+  const { error: cleanupError } = await removeOrphanedFiles();
+  if (cleanupError) {
+    console.error('Error removing deleted files:', cleanupError);
+  }
+};
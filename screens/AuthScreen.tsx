@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   StyleSheet,
   Text,
@@ -12,16 +12,223 @@ import {
   Platform,
 } from 'react-native';
 import { supabase } from '../lib/supabase';
+import type { Factor, Provider } from '@supabase/supabase-js';
+import {
+  AUTH_REDIRECT_URL,
+  RESET_PASSWORD_URL,
+  signInWithProvider,
+} from '../lib/authLinks';
+import {
+  AUTH_METHODS,
+  AUTH_METHOD_LABELS,
+  AuthMethod,
+  OAUTH_PROVIDERS,
+  OAUTH_PROVIDER_LABELS,
+} from '../lib/authConfig';
+import { TOTP_CODE_LENGTH } from '../lib/mfa';
+import { useAuth } from '../hooks/useAuth';
+
+// How long to wait before another email can be requested
+const RESEND_COOLDOWN_SECONDS = 60;
+
+const CODE_LENGTH = 6;
 
-interface AuthScreenProps {
-  onAuthSuccess: () => void;
-}
+type Mode = 'signIn' | 'signUp' | 'forgot' | 'checkInbox' | 'enterCode' | 'mfa';
+type SentEmail = 'signup' | 'recovery' | 'magicLink' | 'otp';
 
-export const AuthScreen: React.FC<AuthScreenProps> = ({ onAuthSuccess }) => {
+// App shows the task list as soon as AuthProvider has a session that
+// doesn't need a second factor, so nothing here navigates on success
+export const AuthScreen: React.FC = () => {
+  const { signIn, signUp, signOut, isMfaRequired } = useAuth();
+  // Signed in, but the session still needs a code from an authenticator app
+  const mfaRequired = isMfaRequired === true;
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [isSignUp, setIsSignUp] = useState(false);
+  const [mode, setMode] = useState<Mode>(mfaRequired ? 'mfa' : 'signIn');
+  const [method, setMethod] = useState<AuthMethod>(AUTH_METHODS[0]);
+  // What the last email we sent was for, so it can be resent
+  const [sentEmailType, setSentEmailType] = useState<SentEmail>('signup');
+  const [cooldown, setCooldown] = useState(0);
+  // Authenticator apps to choose from in the MFA step
+  const [factors, setFactors] = useState<Factor[]>([]);
+  const [factorId, setFactorId] = useState<string | null>(null);
+
+  const isSignUp = mode === 'signUp';
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = setTimeout(() => setCooldown(cooldown - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  useEffect(() => {
+    if (mfaRequired) {
+      setMode('mfa');
+    }
+  }, [mfaRequired]);
+
+  useEffect(() => {
+    if (mode !== 'mfa') return;
+    setCode('');
+    supabase.auth.mfa.listFactors().then(({ data, error }) => {
+      if (error) {
+        Alert.alert('Error', error.message);
+      } else {
+        setFactors(data.totp);
+        setFactorId(data.totp[0]?.id ?? null);
+      }
+    });
+  }, [mode]);
+
+  const showSent = (type: SentEmail) => {
+    setSentEmailType(type);
+    setCooldown(RESEND_COOLDOWN_SECONDS);
+    setMode(type === 'otp' ? 'enterCode' : 'checkInbox');
+  };
+
+  const sendConfirmation = () =>
+    supabase.auth.resend({
+      type: 'signup',
+      email: email.trim(),
+      options: { emailRedirectTo: AUTH_REDIRECT_URL },
+    });
+
+  // The same email carries the link and the code; which one we ask the
+  // user for depends on the chosen method
+  const sendSignInEmail = () =>
+    supabase.auth.signInWithOtp({
+      email: email.trim(),
+      options: { emailRedirectTo: AUTH_REDIRECT_URL, shouldCreateUser: true },
+    });
+
+  const sendPasswordReset = () =>
+    supabase.auth.resetPasswordForEmail(email.trim(), {
+      redirectTo: RESET_PASSWORD_URL,
+    });
+
+  const handleResetRequest = async () => {
+    if (!email.trim()) {
+      Alert.alert('Error', 'Please enter your email');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { error } = await sendPasswordReset();
+      if (error) throw error;
+      showSent('recovery');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to send reset email');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePasswordless = async () => {
+    if (!email.trim()) {
+      Alert.alert('Error', 'Please enter your email');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { error } = await sendSignInEmail();
+      if (error) throw error;
+      setCode('');
+      showSent(method === 'otp' ? 'otp' : 'magicLink');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to send sign-in email');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerifyCode = async () => {
+    if (code.length !== CODE_LENGTH) {
+      Alert.alert('Error', `Please enter the ${CODE_LENGTH}-digit code`);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { error } = await supabase.auth.verifyOtp({
+        email: email.trim(),
+        token: code,
+        type: 'email',
+      });
+      if (error) throw error;
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Invalid or expired code');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerifyMfa = async () => {
+    if (!factorId) return;
+    if (code.length !== TOTP_CODE_LENGTH) {
+      Alert.alert('Error', `Please enter the ${TOTP_CODE_LENGTH}-digit code`);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      // AuthProvider rechecks the session, which is aal2 from here on
+      const { error } = await supabase.auth.mfa.challengeAndVerify({
+        factorId,
+        code,
+      });
+      if (error) throw error;
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Invalid code');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Through useAuth, so the stored session is wiped as well
+  const handleCancelMfa = async () => {
+    await signOut();
+    setMode('signIn');
+  };
+
+  // The session arrives later through the redirect link, see lib/authLinks.ts
+  const handleOAuth = async (provider: Provider) => {
+    try {
+      await signInWithProvider(provider);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to start sign-in');
+    }
+  };
+
+  const resendEmail = () => {
+    switch (sentEmailType) {
+      case 'recovery':
+        return sendPasswordReset();
+      case 'signup':
+        return sendConfirmation();
+      default:
+        return sendSignInEmail();
+    }
+  };
+
+  const handleResend = async () => {
+    if (cooldown > 0) return;
+
+    setIsLoading(true);
+    try {
+      const { error } = await resendEmail();
+      if (error) throw error;
+      setCooldown(RESEND_COOLDOWN_SECONDS);
+      Alert.alert('Email Sent', `We sent another email to ${email.trim()}.`);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to resend email');
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
   const handleAuth = async () => {
     if (!email.trim() || !password.trim()) {
@@ -38,29 +245,39 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onAuthSuccess }) => {
 
     try {
       if (isSignUp) {
-        const { data, error } = await supabase.auth.signUp({
-          email: email.trim(),
-          password: password.trim(),
-        });
+        const { data, error } = await signUp(email.trim(), password.trim());
 
         if (error) throw error;
 
-        if (data.user) {
-          Alert.alert('Success', 'Account created successfully!', [
-            { text: 'OK', onPress: onAuthSuccess },
-          ]);
+        // Without a session, email confirmation is turned on for this project
+        if (!data.session && data.user) {
+          showSent('signup');
         }
       } else {
-        const { data, error } = await supabase.auth.signInWithPassword({
-          email: email.trim(),
-          password: password.trim(),
-        });
+        const { error } = await signIn(email.trim(), password.trim());
 
-        if (error) throw error;
-
-        if (data.user) {
-          onAuthSuccess();
+        if (error?.code === 'email_not_confirmed') {
+          Alert.alert(
+            'Confirm Your Email',
+            'Please confirm your email before signing in.',
+            [
+              { text: 'Cancel', style: 'cancel' },
+              {
+                text: 'Resend Email',
+                onPress: async () => {
+                  const { error: resendError } = await sendConfirmation();
+                  if (resendError) {
+                    Alert.alert('Error', resendError.message);
+                  } else {
+                    showSent('signup');
+                  }
+                },
+              },
+            ],
+          );
+          return;
         }
+        if (error) throw error;
       }
     } catch (error: any) {
       Alert.alert('Error', error.message || 'Authentication failed');
@@ -69,42 +286,290 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onAuthSuccess }) => {
     }
   };
 
-  return (
-    <SafeAreaView style={styles.container} testID="auth-screen">
-      <KeyboardAvoidingView
-        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
-        style={styles.keyboardView}
-      >
-        <View style={styles.content}>
-          <View style={styles.header}>
-            <Text style={styles.title} testID="auth-title">
-              {isSignUp ? 'Create Account' : 'Welcome Back'}
-            </Text>
-            <Text style={styles.subtitle} testID="auth-subtitle">
-              {isSignUp
-                ? 'Sign up to get started'
-                : 'Sign in to continue'}
-            </Text>
-          </View>
+  const titles: Record<Mode, { title: string; subtitle: string }> = {
+    signIn: { title: 'Welcome Back', subtitle: 'Sign in to continue' },
+    signUp: { title: 'Create Account', subtitle: 'Sign up to get started' },
+    forgot: {
+      title: 'Reset Password',
+      subtitle: "We'll email you a link to choose a new one",
+    },
+    checkInbox: { title: 'Check Your Inbox', subtitle: email.trim() },
+    enterCode: {
+      title: 'Enter Your Code',
+      subtitle: `Sent to ${email.trim()}`,
+    },
+    mfa: {
+      title: 'Two-Factor Authentication',
+      subtitle: 'Enter the code from your authenticator app',
+    },
+  };
+
+  const resendButton = (
+    <TouchableOpacity
+      style={[
+        styles.button,
+        styles.secondaryButton,
+        (isLoading || cooldown > 0) && styles.buttonDisabled,
+      ]}
+      onPress={handleResend}
+      disabled={isLoading || cooldown > 0}
+      testID="resend-email-button"
+    >
+      <Text style={styles.secondaryButtonText}>
+        {cooldown > 0 ? `Resend in ${cooldown}s` : 'Resend Email'}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const emailInput = (
+    <View style={styles.inputContainer}>
+      <Text style={styles.label} testID="email-label">
+        Email
+      </Text>
+      <TextInput
+        style={styles.input}
+        placeholder="Enter your email"
+        placeholderTextColor="#999"
+        value={email}
+        onChangeText={setEmail}
+        keyboardType="email-address"
+        autoCapitalize="none"
+        autoCorrect={false}
+        testID="email-input"
+      />
+    </View>
+  );
+
+  // Only shown when more than one sign-in method is enabled
+  const methodSelector = AUTH_METHODS.length > 1 && (
+    <View style={styles.methodRow} testID="auth-method-selector">
+      {AUTH_METHODS.map(m => (
+        <TouchableOpacity
+          key={m}
+          style={[styles.methodOption, method === m && styles.methodSelected]}
+          onPress={() => setMethod(m)}
+          testID={`auth-method-${m}`}
+        >
+          <Text
+            style={[
+              styles.methodText,
+              method === m && styles.methodTextSelected,
+            ]}
+          >
+            {AUTH_METHOD_LABELS[m]}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const backToSignIn = (
+    <TouchableOpacity
+      style={styles.switchButton}
+      onPress={() => setMode('signIn')}
+      testID="auth-back-button"
+    >
+      <Text style={styles.switchText}>Back to Sign In</Text>
+    </TouchableOpacity>
+  );
+
+  const renderForm = () => {
+    switch (mode) {
+      case 'mfa':
+        return (
+          <>
+            {factors.length > 1 && (
+              <View style={styles.methodRow} testID="mfa-factor-selector">
+                {factors.map(factor => (
+                  <TouchableOpacity
+                    key={factor.id}
+                    style={[
+                      styles.methodOption,
+                      factorId === factor.id && styles.methodSelected,
+                    ]}
+                    onPress={() => setFactorId(factor.id)}
+                    testID={`mfa-factor-${factor.id}`}
+                  >
+                    <Text
+                      style={[
+                        styles.methodText,
+                        factorId === factor.id && styles.methodTextSelected,
+                      ]}
+                    >
+                      {factor.friendly_name || 'Authenticator'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
 
-          <View style={styles.form}>
             <View style={styles.inputContainer}>
-              <Text style={styles.label} testID="email-label">
-                Email
+              <TextInput
+                style={[styles.input, styles.codeInput]}
+                placeholder={'0'.repeat(TOTP_CODE_LENGTH)}
+                placeholderTextColor="#d1d5db"
+                value={code}
+                onChangeText={text =>
+                  setCode(text.replace(/\D/g, '').slice(0, TOTP_CODE_LENGTH))
+                }
+                keyboardType="number-pad"
+                textContentType="oneTimeCode"
+                maxLength={TOTP_CODE_LENGTH}
+                autoFocus
+                testID="mfa-code-input"
+              />
+            </View>
+
+            <TouchableOpacity
+              style={[
+                styles.button,
+                styles.primaryButton,
+                (isLoading || !factorId) && styles.buttonDisabled,
+              ]}
+              onPress={handleVerifyMfa}
+              disabled={isLoading || !factorId}
+              testID="mfa-verify-button"
+            >
+              {isLoading ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>Verify</Text>
+              )}
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.switchButton}
+              onPress={handleCancelMfa}
+              testID="mfa-cancel-button"
+            >
+              <Text style={styles.switchText}>
+                Sign in with another account
               </Text>
+            </TouchableOpacity>
+          </>
+        );
+      case 'checkInbox':
+        return (
+          <>
+            <Text style={styles.message} testID="check-inbox-message">
+              {sentEmailType === 'recovery'
+                ? 'We sent you a link to reset your password. Open it on this device to choose a new one.'
+                : sentEmailType === 'magicLink'
+                  ? 'We sent you a sign-in link. Open it on this device to continue.'
+                  : 'We sent you a link to confirm your email. Open it on this device to finish signing up.'}
+            </Text>
+
+            {isLoading ? (
+              <ActivityIndicator color="#6366f1" />
+            ) : (
+              resendButton
+            )}
+
+            {backToSignIn}
+          </>
+        );
+      case 'enterCode':
+        return (
+          <>
+            <View style={styles.inputContainer}>
               <TextInput
-                style={styles.input}
-                placeholder="Enter your email"
-                placeholderTextColor="#999"
-                value={email}
-                onChangeText={setEmail}
-                keyboardType="email-address"
-                autoCapitalize="none"
-                autoCorrect={false}
-                testID="email-input"
+                style={[styles.input, styles.codeInput]}
+                placeholder={'0'.repeat(CODE_LENGTH)}
+                placeholderTextColor="#d1d5db"
+                value={code}
+                onChangeText={text =>
+                  setCode(text.replace(/\D/g, '').slice(0, CODE_LENGTH))
+                }
+                keyboardType="number-pad"
+                textContentType="oneTimeCode"
+                autoComplete="one-time-code"
+                maxLength={CODE_LENGTH}
+                autoFocus
+                testID="otp-code-input"
               />
             </View>
 
+            <TouchableOpacity
+              style={[
+                styles.button,
+                styles.primaryButton,
+                isLoading && styles.buttonDisabled,
+              ]}
+              onPress={handleVerifyCode}
+              disabled={isLoading}
+              testID="otp-verify-button"
+            >
+              {isLoading ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>Verify Code</Text>
+              )}
+            </TouchableOpacity>
+
+            {resendButton}
+
+            {backToSignIn}
+          </>
+        );
+      case 'forgot':
+        return (
+          <>
+            {emailInput}
+
+            <TouchableOpacity
+              style={[
+                styles.button,
+                styles.primaryButton,
+                isLoading && styles.buttonDisabled,
+              ]}
+              onPress={handleResetRequest}
+              disabled={isLoading}
+              testID="reset-submit-button"
+            >
+              {isLoading ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>Send Reset Link</Text>
+              )}
+            </TouchableOpacity>
+
+            {backToSignIn}
+          </>
+        );
+      default:
+        if (!isSignUp && method !== 'password') {
+          return (
+            <>
+              {methodSelector}
+              {emailInput}
+
+              <TouchableOpacity
+                style={[
+                  styles.button,
+                  styles.primaryButton,
+                  isLoading && styles.buttonDisabled,
+                ]}
+                onPress={handlePasswordless}
+                disabled={isLoading}
+                testID="passwordless-submit-button"
+              >
+                {isLoading ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={styles.buttonText}>
+                    {method === 'otp' ? 'Email Me a Code' : 'Email Me a Link'}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </>
+          );
+        }
+
+        return (
+          <>
+            {!isSignUp && methodSelector}
+            {emailInput}
+
             <View style={styles.inputContainer}>
               <Text style={styles.label} testID="password-label">
                 Password
@@ -120,6 +585,15 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onAuthSuccess }) => {
                 autoCorrect={false}
                 testID="password-input"
               />
+              {!isSignUp && (
+                <TouchableOpacity
+                  style={styles.forgotButton}
+                  onPress={() => setMode('forgot')}
+                  testID="forgot-password-button"
+                >
+                  <Text style={styles.forgotText}>Forgot password?</Text>
+                </TouchableOpacity>
+              )}
             </View>
 
             <TouchableOpacity
@@ -143,7 +617,7 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onAuthSuccess }) => {
 
             <TouchableOpacity
               style={styles.switchButton}
-              onPress={() => setIsSignUp(!isSignUp)}
+              onPress={() => setMode(isSignUp ? 'signIn' : 'signUp')}
               testID="auth-switch-button"
             >
               <Text style={styles.switchText}>
@@ -152,6 +626,48 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onAuthSuccess }) => {
                   : "Don't have an account? Sign Up"}
               </Text>
             </TouchableOpacity>
+          </>
+        );
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} testID="auth-screen">
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title} testID="auth-title">
+              {titles[mode].title}
+            </Text>
+            <Text style={styles.subtitle} testID="auth-subtitle">
+              {titles[mode].subtitle}
+            </Text>
+          </View>
+
+          <View style={styles.form}>
+            {renderForm()}
+
+            {(mode === 'signIn' || mode === 'signUp') &&
+              OAUTH_PROVIDERS.length > 0 && (
+                <View style={styles.oauthSection} testID="oauth-providers">
+                  <Text style={styles.dividerText}>or continue with</Text>
+                  {OAUTH_PROVIDERS.map(provider => (
+                    <TouchableOpacity
+                      key={provider}
+                      style={[styles.button, styles.oauthButton]}
+                      onPress={() => handleOAuth(provider)}
+                      testID={`oauth-button-${provider}`}
+                    >
+                      <Text style={styles.oauthButtonText}>
+                        {OAUTH_PROVIDER_LABELS[provider] ?? provider}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
           </View>
         </View>
       </KeyboardAvoidingView>
@@ -232,6 +748,81 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  secondaryButton: {
+    backgroundColor: '#eef2ff',
+    borderWidth: 1,
+    borderColor: '#c7d2fe',
+  },
+  secondaryButtonText: {
+    color: '#4f46e5',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  message: {
+    fontSize: 15,
+    lineHeight: 22,
+    color: '#374151',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  forgotButton: {
+    alignSelf: 'flex-end',
+    marginTop: 10,
+  },
+  forgotText: {
+    fontSize: 14,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  codeInput: {
+    fontSize: 28,
+    fontWeight: '700',
+    letterSpacing: 12,
+    textAlign: 'center',
+  },
+  methodRow: {
+    flexDirection: 'row',
+    padding: 4,
+    marginBottom: 24,
+    borderRadius: 12,
+    backgroundColor: '#e5e7eb',
+  },
+  methodOption: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  methodSelected: {
+    backgroundColor: '#fff',
+  },
+  methodText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  methodTextSelected: {
+    color: '#4f46e5',
+  },
+  oauthSection: {
+    marginTop: 24,
+  },
+  dividerText: {
+    fontSize: 13,
+    color: '#9ca3af',
+    textAlign: 'center',
+    marginBottom: 4,
+  },
+  oauthButton: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  oauthButtonText: {
+    color: '#111827',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   switchButton: {
     marginTop: 24,
     alignItems: 'center',
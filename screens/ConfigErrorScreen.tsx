@@ -0,0 +1,57 @@
+import React from 'react';
+import { StyleSheet, Text, View, SafeAreaView } from 'react-native';
+import { DevProjectSwitcher } from '../components/DevProjectSwitcher';
+
+interface ConfigErrorScreenProps {
+  message: string;
+}
+
+// Shown instead of the app when the Supabase project isn't set up correctly
+export const ConfigErrorScreen: React.FC<ConfigErrorScreenProps> = ({
+  message,
+}) => (
+  <SafeAreaView style={styles.container} testID="config-error-screen">
+    <View style={styles.content}>
+      <Text style={styles.title}>App Not Configured</Text>
+      <Text style={styles.message} testID="config-error-message">
+        {message}
+      </Text>
+      <Text style={styles.hint}>See .env.example for the settings needed.</Text>
+
+      <View style={styles.switcher}>
+        <DevProjectSwitcher />
+      </View>
+    </View>
+  </SafeAreaView>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f7',
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 16,
+  },
+  message: {
+    fontSize: 15,
+    lineHeight: 22,
+    color: '#dc2626',
+    marginBottom: 12,
+  },
+  hint: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  switcher: {
+    marginTop: 32,
+  },
+});
@@ -0,0 +1,517 @@
+import React, { useEffect, useEffectEvent, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  SafeAreaView,
+  ScrollView,
+} from 'react-native';
+import { supabase } from '../lib/supabase';
+import {
+  LIST_ROLE_LABELS,
+  ListInvitation,
+  ListMember,
+  ListRole,
+  MEMBER_ROLES,
+  TaskList,
+} from '../hooks/useLists';
+import { useAuth } from '../hooks/useAuth';
+
+type Result = { success: boolean; error?: string };
+
+interface ListMembersScreenProps {
+  list: TaskList;
+  onBack: () => void;
+  onLeave: (listId: string) => Promise<Result>;
+  onDelete: (listId: string) => Promise<Result>;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Who can see a shared list. Owners invite people by email and manage
+ * roles; everyone else can see the members and leave.
+ */
+export const ListMembersScreen: React.FC<ListMembersScreenProps> = ({
+  list,
+  onBack,
+  onLeave,
+  onDelete,
+}) => {
+  const { user } = useAuth();
+  const isOwner = list.role === 'owner';
+  const [members, setMembers] = useState<ListMember[]>([]);
+  // Sent and not yet answered; only owners can see them
+  const [invitations, setInvitations] = useState<ListInvitation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<ListRole>('editor');
+  const [isInviting, setIsInviting] = useState(false);
+
+  const loadMembers = async () => {
+    try {
+      const [membersResult, invitationsResult] = await Promise.all([
+        supabase
+          .from('list_members')
+          .select('*')
+          .eq('list_id', list.id)
+          .order('created_at', { ascending: true }),
+        isOwner
+          ? supabase
+              .from('list_invitations')
+              .select('*')
+              .eq('list_id', list.id)
+              .order('created_at', { ascending: true })
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+      if (membersResult.error) throw membersResult.error;
+      if (invitationsResult.error) throw invitationsResult.error;
+      setMembers(membersResult.data || []);
+      setInvitations(invitationsResult.data || []);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to load members');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onListChange = useEffectEvent(() => loadMembers());
+
+  useEffect(() => {
+    onListChange();
+  }, [list.id]);
+
+  const handleInvite = async () => {
+    const address = email.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(address)) {
+      Alert.alert('Error', 'Please enter a valid email address');
+      return;
+    }
+    if (members.some(member => member.email.toLowerCase() === address)) {
+      Alert.alert('Error', `${address} is already a member`);
+      return;
+    }
+
+    setIsInviting(true);
+    try {
+      const { error } = await supabase.from('list_invitations').insert([
+        {
+          list_id: list.id,
+          list_name: list.name,
+          email: address,
+          role,
+        },
+      ]);
+      if (error) {
+        // Unique per list and email
+        throw error.code === '23505'
+          ? new Error(`${address} has already been invited`)
+          : error;
+      }
+
+      setEmail('');
+      loadMembers();
+      Alert.alert(
+        'Invitation Sent',
+        `${address} will see it after signing in with that email.`,
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to send invitation');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleChangeRole = async (member: ListMember, next: ListRole) => {
+    const { error } = await supabase
+      .from('list_members')
+      .update({ role: next })
+      .eq('list_id', list.id)
+      .eq('user_id', member.user_id);
+    if (error) {
+      Alert.alert('Error', error.message || 'Failed to change role');
+    } else {
+      loadMembers();
+    }
+  };
+
+  const handleRemove = (member: ListMember) => {
+    Alert.alert(
+      'Remove Member',
+      `${member.email} will no longer see this list.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            const { error } = await supabase
+              .from('list_members')
+              .delete()
+              .eq('list_id', list.id)
+              .eq('user_id', member.user_id);
+            if (error) {
+              Alert.alert('Error', error.message || 'Failed to remove member');
+            } else {
+              loadMembers();
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleCancelInvitation = async (invitation: ListInvitation) => {
+    const { error } = await supabase
+      .from('list_invitations')
+      .delete()
+      .eq('id', invitation.id);
+    if (error) {
+      Alert.alert('Error', error.message || 'Failed to cancel invitation');
+    } else {
+      loadMembers();
+    }
+  };
+
+  // Deleting or leaving closes the screen, since the list is gone
+  const confirmThenClose = (
+    title: string,
+    message: string,
+    confirmLabel: string,
+    action: () => Promise<Result>,
+  ) => {
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: confirmLabel,
+        style: 'destructive',
+        onPress: async () => {
+          const result = await action();
+          if (result.success) {
+            onBack();
+          } else if (result.error) {
+            Alert.alert('Error', result.error);
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={styles.container} testID="list-members-screen">
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} testID="list-members-back-button">
+          <Text style={styles.backText}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{list.name}</Text>
+        <Text style={styles.headerSubtitle}>
+          You're {isOwner ? 'the owner' : `a ${list.role}`}
+        </Text>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+      >
+        {isOwner && (
+          <>
+            <Text style={styles.sectionTitle}>Invite someone</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Email address"
+              placeholderTextColor="#999"
+              value={email}
+              onChangeText={setEmail}
+              autoCapitalize="none"
+              keyboardType="email-address"
+              editable={!isInviting}
+              testID="invite-email-input"
+            />
+            <View style={styles.optionRow}>
+              {MEMBER_ROLES.map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[
+                    styles.option,
+                    role === option && styles.optionSelected,
+                  ]}
+                  onPress={() => setRole(option)}
+                  testID={`invite-role-${option}`}
+                >
+                  <Text
+                    style={[
+                      styles.optionText,
+                      role === option && styles.optionTextSelected,
+                    ]}
+                  >
+                    {LIST_ROLE_LABELS[option]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TouchableOpacity
+              style={styles.button}
+              onPress={handleInvite}
+              disabled={isInviting}
+              testID="invite-button"
+            >
+              {isInviting ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>Send Invitation</Text>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+
+        <Text style={styles.sectionTitle}>Members</Text>
+        {isLoading ? (
+          <ActivityIndicator color="#6366f1" />
+        ) : (
+          members.map(member => (
+            <View
+              key={member.user_id}
+              style={styles.row}
+              testID={`list-member-${member.user_id}`}
+            >
+              <View style={styles.rowContent}>
+                <Text style={styles.rowTitle}>
+                  {member.email}
+                  {member.user_id === user?.id ? ' (you)' : ''}
+                </Text>
+                <Text style={styles.rowSubtitle}>
+                  {LIST_ROLE_LABELS[member.role]}
+                </Text>
+              </View>
+              {isOwner && member.role !== 'owner' && (
+                <View style={styles.rowActions}>
+                  <TouchableOpacity
+                    onPress={() =>
+                      handleChangeRole(
+                        member,
+                        member.role === 'editor' ? 'viewer' : 'editor',
+                      )
+                    }
+                    testID={`member-role-button-${member.user_id}`}
+                  >
+                    <Text style={styles.linkText}>
+                      Make {member.role === 'editor' ? 'viewer' : 'editor'}
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => handleRemove(member)}
+                    testID={`member-remove-button-${member.user_id}`}
+                  >
+                    <Text style={styles.removeText}>Remove</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+          ))
+        )}
+
+        {invitations.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Invited</Text>
+            {invitations.map(invitation => (
+              <View
+                key={invitation.id}
+                style={styles.row}
+                testID={`sent-invitation-${invitation.id}`}
+              >
+                <View style={styles.rowContent}>
+                  <Text style={styles.rowTitle}>{invitation.email}</Text>
+                  <Text style={styles.rowSubtitle}>
+                    {LIST_ROLE_LABELS[invitation.role]} · waiting to accept
+                  </Text>
+                </View>
+                <TouchableOpacity
+                  onPress={() => handleCancelInvitation(invitation)}
+                  testID={`cancel-invitation-button-${invitation.id}`}
+                >
+                  <Text style={styles.removeText}>Cancel</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </>
+        )}
+
+        {isOwner ? (
+          <TouchableOpacity
+            style={styles.dangerButton}
+            onPress={() =>
+              confirmThenClose(
+                'Delete List',
+                `"${list.name}" and all of its tasks will be deleted for everyone.`,
+                'Delete',
+                () => onDelete(list.id),
+              )
+            }
+            testID="delete-list-button"
+          >
+            <Text style={styles.dangerButtonText}>Delete List</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={styles.dangerButton}
+            onPress={() =>
+              confirmThenClose(
+                'Leave List',
+                `You'll no longer see "${list.name}" unless you're invited again.`,
+                'Leave',
+                () => onLeave(list.id),
+              )
+            }
+            testID="leave-list-button"
+          >
+            <Text style={styles.dangerButtonText}>Leave List</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f7',
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+    paddingBottom: 20,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backText: {
+    fontSize: 16,
+    color: '#6366f1',
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  headerSubtitle: {
+    marginTop: 4,
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  content: {
+    padding: 24,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#374151',
+    textTransform: 'uppercase',
+    marginBottom: 12,
+    marginTop: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 12,
+    fontSize: 16,
+    color: '#111827',
+    backgroundColor: '#fff',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  optionSelected: {
+    borderColor: '#6366f1',
+    backgroundColor: '#eef2ff',
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  optionTextSelected: {
+    color: '#4f46e5',
+  },
+  button: {
+    paddingVertical: 14,
+    marginBottom: 20,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#6366f1',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  rowContent: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  rowSubtitle: {
+    marginTop: 2,
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  rowActions: {
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4f46e5',
+  },
+  removeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#dc2626',
+  },
+  dangerButton: {
+    paddingVertical: 14,
+    marginTop: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#fecaca',
+  },
+  dangerButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#dc2626',
+  },
+});
@@ -0,0 +1,259 @@
+import React, { useEffect, useEffectEvent, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  SafeAreaView,
+  ScrollView,
+} from 'react-native';
+import { SvgXml } from 'react-native-svg';
+import { supabase } from '../lib/supabase';
+import { TOTP_CODE_LENGTH, qrCodeXml } from '../lib/mfa';
+
+interface MfaEnrollScreenProps {
+  // Called once the first code has been verified
+  onDone: () => void;
+  onCancel: () => void;
+}
+
+interface Enrollment {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+}
+
+/**
+ * Adds an authenticator app: shows the QR code (and the secret for manual
+ * entry), then verifies the first code, which also raises the session to
+ * aal2. The factor stays unverified, and unused, until that succeeds.
+ */
+export const MfaEnrollScreen: React.FC<MfaEnrollScreenProps> = ({
+  onDone,
+  onCancel,
+}) => {
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const startEnrollment = async () => {
+    try {
+      // Drop factors left behind by an enrollment that was never finished
+      const { data: factors, error: listError } =
+        await supabase.auth.mfa.listFactors();
+      if (listError) throw listError;
+      await Promise.all(
+        factors.all
+          .filter(factor => factor.status === 'unverified')
+          .map(factor => supabase.auth.mfa.unenroll({ factorId: factor.id })),
+      );
+
+      const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: 'totp',
+      });
+      if (error) throw error;
+
+      setEnrollment({
+        factorId: data.id,
+        qrCode: qrCodeXml(data.totp.qr_code),
+        secret: data.totp.secret,
+      });
+    } catch (error: any) {
+      Alert.alert(
+        'Error',
+        error.message || 'Failed to set up authenticator app',
+        [{ text: 'OK', onPress: onCancel }],
+      );
+    }
+  };
+
+  const onOpen = useEffectEvent(() => startEnrollment());
+
+  useEffect(() => {
+    onOpen();
+  }, []);
+
+  const handleVerify = async () => {
+    if (!enrollment) return;
+    if (code.length !== TOTP_CODE_LENGTH) {
+      Alert.alert('Error', `Please enter the ${TOTP_CODE_LENGTH}-digit code`);
+      return;
+    }
+
+    setIsVerifying(true);
+    try {
+      const { error } = await supabase.auth.mfa.challengeAndVerify({
+        factorId: enrollment.factorId,
+        code,
+      });
+      if (error) throw error;
+
+      Alert.alert(
+        'Two-Factor Authentication On',
+        "You'll be asked for a code from your authenticator app when you sign in.",
+        [{ text: 'OK', onPress: onDone }],
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Invalid code');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (enrollment) {
+      await supabase.auth.mfa.unenroll({ factorId: enrollment.factorId });
+    }
+    onCancel();
+  };
+
+  return (
+    <SafeAreaView style={styles.container} testID="mfa-enroll-screen">
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.title}>Set Up Authenticator App</Text>
+        <Text style={styles.subtitle}>
+          Scan the QR code with an authenticator app, then enter the code it
+          shows.
+        </Text>
+
+        {enrollment ? (
+          <>
+            <View style={styles.qrContainer} testID="mfa-qr-code">
+              <SvgXml xml={enrollment.qrCode} width={200} height={200} />
+            </View>
+
+            <Text style={styles.label}>Can't scan it? Enter this key</Text>
+            <Text selectable style={styles.secret} testID="mfa-secret">
+              {enrollment.secret}
+            </Text>
+
+            <TextInput
+              style={[styles.input, styles.codeInput]}
+              placeholder={'0'.repeat(TOTP_CODE_LENGTH)}
+              placeholderTextColor="#d1d5db"
+              value={code}
+              onChangeText={text =>
+                setCode(text.replace(/\D/g, '').slice(0, TOTP_CODE_LENGTH))
+              }
+              keyboardType="number-pad"
+              textContentType="oneTimeCode"
+              maxLength={TOTP_CODE_LENGTH}
+              testID="mfa-enroll-code-input"
+            />
+
+            <TouchableOpacity
+              style={[styles.button, isVerifying && styles.buttonDisabled]}
+              onPress={handleVerify}
+              disabled={isVerifying}
+              testID="mfa-enroll-verify-button"
+            >
+              {isVerifying ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>Verify and Turn On</Text>
+              )}
+            </TouchableOpacity>
+          </>
+        ) : (
+          <ActivityIndicator color="#6366f1" style={styles.loading} />
+        )}
+
+        <TouchableOpacity
+          style={styles.cancelButton}
+          onPress={handleCancel}
+          testID="mfa-enroll-cancel-button"
+        >
+          <Text style={styles.cancelText}>Cancel</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f7',
+  },
+  content: {
+    padding: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6b7280',
+    fontWeight: '500',
+    marginBottom: 24,
+  },
+  qrContainer: {
+    alignSelf: 'center',
+    padding: 16,
+    marginBottom: 24,
+    borderRadius: 12,
+    backgroundColor: '#fff',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  secret: {
+    fontSize: 15,
+    fontFamily: 'Courier',
+    color: '#111827',
+    marginBottom: 24,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: '#111827',
+    backgroundColor: '#fff',
+    marginBottom: 12,
+  },
+  codeInput: {
+    fontSize: 28,
+    fontWeight: '700',
+    letterSpacing: 12,
+    textAlign: 'center',
+  },
+  button: {
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 48,
+    backgroundColor: '#6366f1',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  loading: {
+    marginVertical: 40,
+  },
+  cancelButton: {
+    marginTop: 24,
+    alignItems: 'center',
+  },
+  cancelText: {
+    fontSize: 14,
+    color: '#6b7280',
+    fontWeight: '500',
+  },
+});
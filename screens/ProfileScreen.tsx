@@ -0,0 +1,742 @@
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  SafeAreaView,
+  ScrollView,
+  Switch,
+  TextInput,
+} from 'react-native';
+import { launchImageLibrary } from 'react-native-image-picker';
+import type { Factor, Provider, UserIdentity } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { AUTH_REDIRECT_URL, linkProvider } from '../lib/authLinks';
+import { OAUTH_PROVIDERS, OAUTH_PROVIDER_LABELS } from '../lib/authConfig';
+import { MfaEnrollScreen } from './MfaEnrollScreen';
+import { DevProjectSwitcher } from '../components/DevProjectSwitcher';
+import { AppLockSettings, LOCK_TIMEOUT_OPTIONS } from '../lib/appLock';
+import { useAuth } from '../hooks/useAuth';
+import { AvatarFile } from '../hooks/useProfile';
+import { Avatar } from '../components/Avatar';
+import { SessionList } from '../components/SessionList';
+import { AccountDataSection } from '../components/AccountDataSection';
+
+type ActionResult = Promise<{ success: boolean; error?: string }>;
+
+interface ProfileScreenProps {
+  email: string | null;
+  displayName: string | null;
+  avatarUrl: string | null;
+  onBack: () => void;
+  onChangeDisplayName: (displayName: string) => ActionResult;
+  onChangeAvatar: (file: AvatarFile) => ActionResult;
+  lockSettings: AppLockSettings;
+  onChangeLockSettings: (changes: Partial<AppLockSettings>) => ActionResult;
+}
+
+const providerLabel = (provider: string) =>
+  OAUTH_PROVIDER_LABELS[provider as Provider] ??
+  (provider === 'email' ? 'Email' : provider);
+
+export const ProfileScreen: React.FC<ProfileScreenProps> = ({
+  email,
+  displayName,
+  avatarUrl,
+  onBack,
+  onChangeDisplayName,
+  onChangeAvatar,
+  lockSettings,
+  onChangeLockSettings,
+}) => {
+  const { user } = useAuth();
+  const [nameInput, setNameInput] = useState(displayName ?? '');
+  const [isSavingProfile, setIsSavingProfile] = useState(false);
+  const [newEmail, setNewEmail] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  // Emailed code, needed when the sign-in is too old to change the password
+  const [nonce, setNonce] = useState('');
+  const [isNonceRequired, setIsNonceRequired] = useState(false);
+  const [isSavingAccount, setIsSavingAccount] = useState(false);
+  const [identities, setIdentities] = useState<UserIdentity[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Verified authenticator apps
+  const [factors, setFactors] = useState<Factor[]>([]);
+  const [isEnrolling, setIsEnrolling] = useState(false);
+
+  const loadIdentities = async () => {
+    try {
+      const { data, error } = await supabase.auth.getUserIdentities();
+      if (error) throw error;
+      setIdentities(data.identities);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to load sign-in methods');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadFactors = async () => {
+    const { data, error } = await supabase.auth.mfa.listFactors();
+    if (error) {
+      Alert.alert(
+        'Error',
+        error.message || 'Failed to load authenticator apps',
+      );
+    } else {
+      setFactors(data.totp);
+    }
+  };
+
+  useEffect(() => {
+    loadFactors();
+  }, []);
+
+  // Linking finishes through a redirect link, which replaces the user
+  useEffect(() => {
+    loadIdentities();
+  }, [user]);
+
+  const handleLink = async (provider: Provider) => {
+    try {
+      await linkProvider(provider);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to link account');
+    }
+  };
+
+  const handleUnlink = (identity: UserIdentity) => {
+    Alert.alert(
+      'Unlink Account',
+      `You will no longer be able to sign in with ${providerLabel(
+        identity.provider,
+      )}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Unlink',
+          style: 'destructive',
+          onPress: async () => {
+            const { error } = await supabase.auth.unlinkIdentity(identity);
+            if (error) {
+              Alert.alert('Error', error.message || 'Failed to unlink account');
+            } else {
+              loadIdentities();
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleRemoveFactor = (factor: Factor) => {
+    Alert.alert(
+      'Remove Authenticator App',
+      factors.length === 1
+        ? 'Two-factor authentication will be turned off for your account.'
+        : 'Codes from this app will no longer be accepted.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            const { error } = await supabase.auth.mfa.unenroll({
+              factorId: factor.id,
+            });
+            if (error) {
+              Alert.alert('Error', error.message || 'Failed to remove app');
+            } else {
+              loadFactors();
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  // The profile can arrive after the screen opens
+  useEffect(() => {
+    setNameInput(displayName ?? '');
+  }, [displayName]);
+
+  const handleSaveName = async () => {
+    setIsSavingProfile(true);
+    const result = await onChangeDisplayName(nameInput);
+    setIsSavingProfile(false);
+    if (!result.success && result.error) {
+      Alert.alert('Error', result.error);
+    }
+  };
+
+  const handleChangeAvatar = async () => {
+    const response = await launchImageLibrary({
+      mediaType: 'photo',
+      maxWidth: 512,
+      maxHeight: 512,
+      quality: 0.8,
+    });
+    if (response.errorMessage) {
+      Alert.alert('Error', response.errorMessage);
+    }
+    const asset = response.assets?.[0];
+    if (response.didCancel || !asset?.uri) return;
+
+    setIsSavingProfile(true);
+    const result = await onChangeAvatar({ uri: asset.uri, type: asset.type });
+    setIsSavingProfile(false);
+    if (!result.success && result.error) {
+      Alert.alert('Error', result.error);
+    }
+  };
+
+  const handleChangeEmail = async () => {
+    const trimmed = newEmail.trim();
+    if (!trimmed || trimmed === email) {
+      Alert.alert('Error', 'Please enter a new email address');
+      return;
+    }
+
+    setIsSavingAccount(true);
+    try {
+      const { error } = await supabase.auth.updateUser(
+        { email: trimmed },
+        { emailRedirectTo: AUTH_REDIRECT_URL },
+      );
+      if (error) throw error;
+
+      setNewEmail('');
+      Alert.alert(
+        'Check Your Email',
+        `Open the links sent to ${email} and ${trimmed} to confirm the change.`,
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to change email');
+    } finally {
+      setIsSavingAccount(false);
+    }
+  };
+
+  const handleChangePassword = async () => {
+    if (newPassword.length < 6) {
+      Alert.alert('Error', 'Password must be at least 6 characters');
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      Alert.alert('Error', 'Passwords do not match');
+      return;
+    }
+
+    setIsSavingAccount(true);
+    try {
+      const { error } = await supabase.auth.updateUser({
+        password: newPassword,
+        nonce: isNonceRequired ? nonce.trim() : undefined,
+      });
+
+      if (error?.code === 'reauthentication_needed') {
+        const { error: reauthError } = await supabase.auth.reauthenticate();
+        if (reauthError) throw reauthError;
+        setIsNonceRequired(true);
+        Alert.alert(
+          "Confirm It's You",
+          `Enter the code sent to ${email} to change your password.`,
+        );
+        return;
+      }
+      if (error) throw error;
+
+      setNewPassword('');
+      setConfirmPassword('');
+      setNonce('');
+      setIsNonceRequired(false);
+      Alert.alert('Success', 'Your password has been updated.');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update password');
+    } finally {
+      setIsSavingAccount(false);
+    }
+  };
+
+  const handleLockChange = async (changes: Partial<AppLockSettings>) => {
+    const result = await onChangeLockSettings(changes);
+    if (!result.success && result.error) {
+      Alert.alert('Error', result.error);
+    }
+  };
+
+  if (isEnrolling) {
+    return (
+      <MfaEnrollScreen
+        onDone={() => {
+          setIsEnrolling(false);
+          loadFactors();
+        }}
+        onCancel={() => setIsEnrolling(false)}
+      />
+    );
+  }
+
+  const unlinked = OAUTH_PROVIDERS.filter(
+    provider => !identities.some(identity => identity.provider === provider),
+  );
+
+  return (
+    <SafeAreaView style={styles.container} testID="profile-screen">
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} testID="profile-back-button">
+          <Text style={styles.backText}>‹ Back</Text>
+        </TouchableOpacity>
+        <View style={styles.headerRow}>
+          <TouchableOpacity
+            onPress={handleChangeAvatar}
+            disabled={isSavingProfile}
+            testID="profile-avatar-button"
+          >
+            <Avatar
+              url={avatarUrl}
+              name={displayName || email || ''}
+              size={64}
+              testID="profile-avatar"
+            />
+            <Text style={styles.avatarHint}>Edit</Text>
+          </TouchableOpacity>
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>{displayName || 'Profile'}</Text>
+            {email && (
+              <Text style={styles.email} testID="profile-email">
+                {email}
+              </Text>
+            )}
+          </View>
+        </View>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text style={styles.sectionTitle}>Display name</Text>
+        <View style={styles.inputRow}>
+          <TextInput
+            style={[styles.input, styles.inputFlex]}
+            placeholder="How your name is shown"
+            placeholderTextColor="#999"
+            value={nameInput}
+            onChangeText={setNameInput}
+            editable={!isSavingProfile}
+            testID="display-name-input"
+          />
+          <TouchableOpacity
+            style={styles.smallButton}
+            onPress={handleSaveName}
+            disabled={
+              isSavingProfile || nameInput.trim() === (displayName ?? '')
+            }
+            testID="display-name-save-button"
+          >
+            {isSavingProfile ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.smallButtonText}>Save</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.sectionTitle}>Email</Text>
+        {user?.new_email && (
+          <Text style={styles.pendingText} testID="pending-email">
+            Waiting for you to confirm {user.new_email}
+          </Text>
+        )}
+        <View style={styles.inputRow}>
+          <TextInput
+            style={[styles.input, styles.inputFlex]}
+            placeholder="New email address"
+            placeholderTextColor="#999"
+            value={newEmail}
+            onChangeText={setNewEmail}
+            autoCapitalize="none"
+            keyboardType="email-address"
+            editable={!isSavingAccount}
+            testID="new-email-input"
+          />
+          <TouchableOpacity
+            style={styles.smallButton}
+            onPress={handleChangeEmail}
+            disabled={isSavingAccount}
+            testID="change-email-button"
+          >
+            <Text style={styles.smallButtonText}>Change</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.sectionTitle}>Password</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="New password"
+          placeholderTextColor="#999"
+          value={newPassword}
+          onChangeText={setNewPassword}
+          secureTextEntry
+          autoCapitalize="none"
+          editable={!isSavingAccount}
+          testID="new-password-input"
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="Confirm new password"
+          placeholderTextColor="#999"
+          value={confirmPassword}
+          onChangeText={setConfirmPassword}
+          secureTextEntry
+          autoCapitalize="none"
+          editable={!isSavingAccount}
+          testID="confirm-new-password-input"
+        />
+        {isNonceRequired && (
+          <TextInput
+            style={styles.input}
+            placeholder="Code from your email"
+            placeholderTextColor="#999"
+            value={nonce}
+            onChangeText={setNonce}
+            keyboardType="number-pad"
+            autoComplete="one-time-code"
+            editable={!isSavingAccount}
+            testID="password-nonce-input"
+          />
+        )}
+        <TouchableOpacity
+          style={styles.linkButton}
+          onPress={handleChangePassword}
+          disabled={isSavingAccount}
+          testID="change-password-button"
+        >
+          {isSavingAccount ? (
+            <ActivityIndicator color="#4f46e5" />
+          ) : (
+            <Text style={styles.linkButtonText}>Change Password</Text>
+          )}
+        </TouchableOpacity>
+
+        <Text style={styles.sectionTitle}>Signed-in devices</Text>
+        <SessionList />
+
+        <Text style={styles.sectionTitle}>Sign-in methods</Text>
+
+        {isLoading ? (
+          <ActivityIndicator color="#6366f1" />
+        ) : (
+          identities.map(identity => (
+            <View
+              key={identity.identity_id}
+              style={styles.row}
+              testID={`identity-${identity.provider}`}
+            >
+              <View style={styles.rowContent}>
+                <Text style={styles.rowTitle}>
+                  {providerLabel(identity.provider)}
+                </Text>
+                {identity.identity_data?.email && (
+                  <Text style={styles.rowSubtitle}>
+                    {identity.identity_data.email}
+                  </Text>
+                )}
+              </View>
+              {identities.length > 1 && (
+                <TouchableOpacity
+                  onPress={() => handleUnlink(identity)}
+                  testID={`unlink-button-${identity.provider}`}
+                >
+                  <Text style={styles.unlinkText}>Unlink</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ))
+        )}
+
+        {!isLoading && unlinked.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Link another account</Text>
+            {unlinked.map(provider => (
+              <TouchableOpacity
+                key={provider}
+                style={styles.linkButton}
+                onPress={() => handleLink(provider)}
+                testID={`link-button-${provider}`}
+              >
+                <Text style={styles.linkButtonText}>
+                  Link {providerLabel(provider)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </>
+        )}
+
+        <Text style={styles.sectionTitle}>Two-factor authentication</Text>
+        {factors.map(factor => (
+          <View
+            key={factor.id}
+            style={styles.row}
+            testID={`mfa-factor-${factor.id}`}
+          >
+            <View style={styles.rowContent}>
+              <Text style={styles.rowTitle}>
+                {factor.friendly_name || 'Authenticator app'}
+              </Text>
+              <Text style={styles.rowSubtitle}>
+                Added {new Date(factor.created_at).toLocaleDateString()}
+              </Text>
+            </View>
+            <TouchableOpacity
+              onPress={() => handleRemoveFactor(factor)}
+              testID={`mfa-remove-button-${factor.id}`}
+            >
+              <Text style={styles.unlinkText}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+        <TouchableOpacity
+          style={styles.linkButton}
+          onPress={() => setIsEnrolling(true)}
+          testID="mfa-enroll-button"
+        >
+          <Text style={styles.linkButtonText}>
+            {factors.length > 0
+              ? 'Add Another Authenticator App'
+              : 'Set Up Authenticator App'}
+          </Text>
+        </TouchableOpacity>
+
+        <Text style={styles.sectionTitle}>App lock</Text>
+        <View style={styles.row}>
+          <View style={styles.rowContent}>
+            <Text style={styles.rowTitle}>Require Face ID or fingerprint</Text>
+            <Text style={styles.rowSubtitle}>
+              Your device passcode also works
+            </Text>
+          </View>
+          <Switch
+            value={lockSettings.enabled}
+            onValueChange={enabled => handleLockChange({ enabled })}
+            testID="app-lock-switch"
+          />
+        </View>
+        {lockSettings.enabled && (
+          <>
+            <Text style={styles.optionLabel}>Lock after leaving the app</Text>
+            <View style={styles.optionRow}>
+              {LOCK_TIMEOUT_OPTIONS.map(option => {
+                const isSelected =
+                  lockSettings.timeoutSeconds === option.seconds;
+                return (
+                  <TouchableOpacity
+                    key={option.seconds}
+                    style={[styles.option, isSelected && styles.optionSelected]}
+                    onPress={() =>
+                      handleLockChange({ timeoutSeconds: option.seconds })
+                    }
+                    testID={`app-lock-timeout-${option.seconds}`}
+                  >
+                    <Text
+                      style={[
+                        styles.optionText,
+                        isSelected && styles.optionTextSelected,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </>
+        )}
+
+        <Text style={styles.sectionTitle}>Your data</Text>
+        <AccountDataSection email={email} isMfaEnabled={factors.length > 0} />
+
+        {__DEV__ && (
+          <>
+            <Text style={styles.sectionTitle}>Developer</Text>
+            <DevProjectSwitcher />
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f7',
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+    paddingBottom: 20,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backText: {
+    fontSize: 16,
+    color: '#6366f1',
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  headerText: {
+    flex: 1,
+  },
+  avatarHint: {
+    marginTop: 4,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6366f1',
+    textAlign: 'center',
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  email: {
+    marginTop: 4,
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  content: {
+    padding: 24,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#374151',
+    textTransform: 'uppercase',
+    marginBottom: 12,
+    marginTop: 8,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 12,
+    fontSize: 16,
+    color: '#111827',
+    backgroundColor: '#fff',
+  },
+  inputFlex: {
+    flex: 1,
+  },
+  smallButton: {
+    minWidth: 80,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    marginBottom: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#6366f1',
+  },
+  smallButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  pendingText: {
+    fontSize: 13,
+    color: '#b45309',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  rowContent: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  rowSubtitle: {
+    marginTop: 2,
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  unlinkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#dc2626',
+  },
+  optionLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 20,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  optionSelected: {
+    borderColor: '#6366f1',
+    backgroundColor: '#eef2ff',
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  optionTextSelected: {
+    color: '#4f46e5',
+  },
+  linkButton: {
+    paddingVertical: 14,
+    marginBottom: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#c7d2fe',
+  },
+  linkButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#4f46e5',
+  },
+});
@@ -0,0 +1,506 @@
+import React, { useEffect, useEffectEvent, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  SafeAreaView,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Item } from '../hooks/useItems';
+import { Person, personName } from '../hooks/usePeople';
+import { TaskComment, useComments } from '../hooks/useComments';
+import { useAuth } from '../hooks/useAuth';
+import { Avatar } from '../components/Avatar';
+import {
+  ActivityEntry,
+  ValueFormatters,
+  describeAction,
+  describeChanges,
+  fetchActivity,
+} from '../lib/activity';
+import { STATUS_LABELS } from '../lib/taskQuery';
+import { AttachmentGallery } from '../components/AttachmentGallery';
+import { Attachment, PendingUpload, PickedFile } from '../lib/attachments';
+
+export type TaskDetailTab = 'comments' | 'files' | 'history';
+
+const TAB_LABELS: Record<TaskDetailTab, string> = {
+  comments: 'Comments',
+  files: 'Files',
+  history: 'History',
+};
+
+interface TaskDetailScreenProps {
+  task: Item;
+  initialTab: TaskDetailTab;
+  // Authors and assignees, by user id
+  people: Record<string, Person>;
+  formatters: ValueFormatters;
+  // False for viewers of a shared list
+  canEdit: boolean;
+  attachments: Attachment[];
+  attachmentUrls: Record<string, string>;
+  uploads: PendingUpload[];
+  // Why attachments failed to load or change, if they did
+  attachmentError: string | null;
+  onAddAttachment: (
+    file: PickedFile,
+  ) => Promise<{ success: boolean; error?: string }>;
+  onDeleteAttachment: (
+    attachment: Attachment,
+  ) => Promise<{ success: boolean; error?: string }>;
+  onCancelUpload: (id: string) => void;
+  onBack: () => void;
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+/**
+ * A task's discussion, files and history. Comments update live; the history
+ * is written by the database on every change, so it can't be edited here.
+ */
+export const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({
+  task,
+  initialTab,
+  people,
+  formatters,
+  canEdit,
+  attachments,
+  attachmentUrls,
+  uploads,
+  attachmentError,
+  onAddAttachment,
+  onDeleteAttachment,
+  onCancelUpload,
+  onBack,
+}) => {
+  const { user } = useAuth();
+  const { threads, loading, addComment, deleteComment } = useComments(task.id);
+  const [tab, setTab] = useState<TaskDetailTab>(initialTab);
+  const [activity, setActivity] = useState<ActivityEntry[]>([]);
+  const [isLoadingActivity, setIsLoadingActivity] = useState(true);
+  const [body, setBody] = useState('');
+  const [replyTo, setReplyTo] = useState<TaskComment | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  const loadActivity = async () => {
+    try {
+      setActivity(await fetchActivity(task.id));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to load history');
+    } finally {
+      setIsLoadingActivity(false);
+    }
+  };
+
+  const onHistoryChange = useEffectEvent(() => loadActivity());
+
+  // Reloaded each time the tab opens, since edits keep adding to it
+  useEffect(() => {
+    if (tab === 'history') {
+      onHistoryChange();
+    }
+  }, [tab, task.id, task.updated_at]);
+
+  const authorName = (userId: string) =>
+    people[userId] ? personName(people[userId]) : 'Former member';
+
+  const handleSend = async () => {
+    if (!body.trim()) return;
+
+    setIsSending(true);
+    const result = await addComment(body, replyTo?.id ?? null);
+    setIsSending(false);
+
+    if (result.success) {
+      setBody('');
+      setReplyTo(null);
+    } else {
+      Alert.alert('Error', result.error || 'Failed to add comment');
+    }
+  };
+
+  const handleDelete = (comment: TaskComment) => {
+    Alert.alert('Delete Comment', 'Replies to it are deleted too.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const result = await deleteComment(comment.id);
+          if (!result.success) {
+            Alert.alert('Error', result.error || 'Failed to delete comment');
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderComment = (comment: TaskComment, isReply = false) => (
+    <View
+      key={comment.id}
+      style={[styles.comment, isReply && styles.reply]}
+      testID={`comment-${comment.id}`}
+    >
+      <Avatar
+        url={people[comment.user_id]?.avatarUrl ?? null}
+        name={authorName(comment.user_id)}
+        size={28}
+      />
+      <View style={styles.commentContent}>
+        <Text style={styles.commentAuthor}>
+          {authorName(comment.user_id)}
+          <Text style={styles.commentTime}>
+            {'  '}
+            {formatTime(comment.created_at)}
+          </Text>
+        </Text>
+        <Text style={styles.commentBody}>{comment.body}</Text>
+        <View style={styles.commentActions}>
+          {/* Replies hang off the top-level comment */}
+          {!isReply && (
+            <TouchableOpacity
+              onPress={() => setReplyTo(comment)}
+              testID={`comment-reply-button-${comment.id}`}
+            >
+              <Text style={styles.linkText}>Reply</Text>
+            </TouchableOpacity>
+          )}
+          {comment.user_id === user?.id && (
+            <TouchableOpacity
+              onPress={() => handleDelete(comment)}
+              testID={`comment-delete-button-${comment.id}`}
+            >
+              <Text style={styles.removeText}>Delete</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+
+  const renderEntry = (entry: ActivityEntry) => (
+    <View
+      key={entry.id}
+      style={styles.entry}
+      testID={`activity-entry-${entry.id}`}
+    >
+      <Text style={styles.entryTitle}>{describeAction(entry)}</Text>
+      {describeChanges(entry, formatters).map(line => (
+        <Text key={line} style={styles.entryChange}>
+          {line}
+        </Text>
+      ))}
+      <Text style={styles.commentTime}>{formatTime(entry.created_at)}</Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} testID="task-detail-screen">
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onBack} testID="task-detail-back-button">
+            <Text style={styles.backText}>‹ Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{task.title}</Text>
+          <Text style={styles.headerSubtitle}>
+            {STATUS_LABELS[task.status ?? 'open']}
+          </Text>
+          <View style={styles.tabRow}>
+            {(Object.keys(TAB_LABELS) as TaskDetailTab[]).map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.tab, tab === option && styles.tabSelected]}
+                onPress={() => setTab(option)}
+                testID={`task-detail-tab-${option}`}
+              >
+                <Text
+                  style={[
+                    styles.tabText,
+                    tab === option && styles.tabTextSelected,
+                  ]}
+                >
+                  {TAB_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled"
+        >
+          {tab === 'comments' &&
+            (loading ? (
+              <ActivityIndicator color="#6366f1" />
+            ) : threads.length === 0 ? (
+              <Text style={styles.emptyText}>
+                No comments yet. Start the discussion below.
+              </Text>
+            ) : (
+              threads.map(({ comment, replies }) => (
+                <View key={comment.id}>
+                  {renderComment(comment)}
+                  {replies.map(reply => renderComment(reply, true))}
+                </View>
+              ))
+            ))}
+
+          {tab === 'files' && (
+            <AttachmentGallery
+              attachments={attachments}
+              urls={attachmentUrls}
+              uploads={uploads}
+              error={attachmentError}
+              canEdit={canEdit}
+              currentUserId={user?.id ?? null}
+              onAdd={onAddAttachment}
+              onDelete={onDeleteAttachment}
+              onCancelUpload={onCancelUpload}
+            />
+          )}
+
+          {tab === 'history' &&
+            (isLoadingActivity ? (
+              <ActivityIndicator color="#6366f1" />
+            ) : activity.length === 0 ? (
+              <Text style={styles.emptyText}>No changes recorded yet.</Text>
+            ) : (
+              activity.map(renderEntry)
+            ))}
+        </ScrollView>
+
+        {tab === 'comments' && (
+          <View style={styles.composer}>
+            {replyTo && (
+              <View style={styles.replyingRow}>
+                <Text style={styles.replyingText} numberOfLines={1}>
+                  Replying to {authorName(replyTo.user_id)}
+                </Text>
+                <TouchableOpacity
+                  onPress={() => setReplyTo(null)}
+                  testID="comment-reply-cancel-button"
+                >
+                  <Text style={styles.linkText}>Cancel</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+            <View style={styles.composerRow}>
+              <TextInput
+                style={styles.input}
+                placeholder="Add a comment"
+                placeholderTextColor="#999"
+                value={body}
+                onChangeText={setBody}
+                multiline
+                editable={!isSending}
+                testID="comment-input"
+              />
+              <TouchableOpacity
+                style={styles.sendButton}
+                onPress={handleSend}
+                disabled={isSending}
+                testID="comment-send-button"
+              >
+                {isSending ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={styles.sendButtonText}>Send</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f7',
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backText: {
+    fontSize: 16,
+    color: '#6366f1',
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  headerSubtitle: {
+    marginTop: 4,
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  tabRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  tab: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  tabSelected: {
+    borderColor: '#6366f1',
+    backgroundColor: '#eef2ff',
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  tabTextSelected: {
+    color: '#4f46e5',
+  },
+  content: {
+    padding: 24,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+  comment: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 12,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  reply: {
+    marginLeft: 32,
+  },
+  commentContent: {
+    flex: 1,
+  },
+  commentAuthor: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  commentTime: {
+    fontSize: 12,
+    fontWeight: '400',
+    color: '#9ca3af',
+  },
+  commentBody: {
+    marginTop: 4,
+    fontSize: 15,
+    color: '#374151',
+  },
+  commentActions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 8,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4f46e5',
+  },
+  removeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#dc2626',
+  },
+  entry: {
+    padding: 12,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  entryTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  entryChange: {
+    fontSize: 14,
+    color: '#374151',
+    marginBottom: 2,
+  },
+  composer: {
+    padding: 12,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  replyingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  replyingText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  composerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    maxHeight: 120,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#111827',
+    backgroundColor: '#f9fafb',
+  },
+  sendButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#6366f1',
+  },
+  sendButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
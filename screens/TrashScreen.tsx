@@ -0,0 +1,268 @@
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  SafeAreaView,
+  ScrollView,
+} from 'react-native';
+import { Item } from '../hooks/useItems';
+import { TaskList } from '../hooks/useLists';
+import {
+  daysUntilPurge,
+  deleteTaskForever,
+  fetchRetentionDays,
+  fetchTrash,
+  restoreTask,
+} from '../lib/trash';
+
+interface TrashScreenProps {
+  // For naming the list each task was in
+  lists: TaskList[];
+  canEditTask: (taskListId?: string | null) => boolean;
+  onBack: () => void;
+  // Called after a restore, so the task lists can reload
+  onRestored: () => void;
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+  });
+
+/**
+ * Deleted tasks from every list the user can see. Editors can restore them
+ * or delete them for good; anything left is purged by the database once its
+ * retention period is up.
+ */
+export const TrashScreen: React.FC<TrashScreenProps> = ({
+  lists,
+  canEditTask,
+  onBack,
+  onRestored,
+}) => {
+  const [tasks, setTasks] = useState<Item[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  // Task being restored or deleted
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadTrash = async () => {
+    try {
+      const [trash, days] = await Promise.all([
+        fetchTrash(),
+        fetchRetentionDays(),
+      ]);
+      setTasks(trash);
+      setRetentionDays(days);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to load the Trash');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTrash();
+  }, []);
+
+  const listName = (task: Item) =>
+    task.list_id
+      ? lists.find(list => list.id === task.list_id)?.name ?? 'Shared list'
+      : 'My Tasks';
+
+  const handleRestore = async (task: Item) => {
+    setBusyId(task.id);
+    try {
+      await restoreTask(task.id);
+      setTasks(prev => prev.filter(t => t.id !== task.id));
+      onRestored();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to restore task');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDeleteForever = (task: Item) => {
+    Alert.alert(
+      'Delete Forever',
+      `"${task.title}" and its files will be deleted. This can't be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setBusyId(task.id);
+            try {
+              await deleteTaskForever(task.id);
+              setTasks(prev => prev.filter(t => t.id !== task.id));
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to delete task');
+            } finally {
+              setBusyId(null);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const renderTask = (task: Item) => {
+    const days =
+      task.deleted_at && retentionDays !== null
+        ? daysUntilPurge(task.deleted_at, retentionDays)
+        : null;
+    return (
+      <View key={task.id} style={styles.task} testID={`trash-task-${task.id}`}>
+        <Text style={styles.taskTitle}>{task.title}</Text>
+        <Text style={styles.taskMeta}>
+          {listName(task)}
+          {task.deleted_at && ` · Deleted ${formatDate(task.deleted_at)}`}
+          {days !== null && ` · ${days === 1 ? '1 day' : `${days} days`} left`}
+        </Text>
+        {canEditTask(task.list_id) &&
+          (busyId === task.id ? (
+            <ActivityIndicator color="#6366f1" style={styles.busy} />
+          ) : (
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.restoreButton]}
+                onPress={() => handleRestore(task)}
+                disabled={busyId !== null}
+                testID={`trash-restore-button-${task.id}`}
+              >
+                <Text style={styles.restoreButtonText}>Restore</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.deleteButton]}
+                onPress={() => handleDeleteForever(task)}
+                disabled={busyId !== null}
+                testID={`trash-delete-button-${task.id}`}
+              >
+                <Text style={styles.deleteButtonText}>Delete Forever</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} testID="trash-screen">
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} testID="trash-back-button">
+          <Text style={styles.backText}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Trash</Text>
+        {retentionDays !== null && (
+          <Text style={styles.headerSubtitle}>
+            Deleted tasks are removed for good after {retentionDays} days.
+          </Text>
+        )}
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {isLoading ? (
+          <ActivityIndicator color="#6366f1" />
+        ) : tasks.length === 0 ? (
+          <Text style={styles.emptyText}>The Trash is empty.</Text>
+        ) : (
+          tasks.map(renderTask)
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f7',
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backText: {
+    fontSize: 16,
+    color: '#6366f1',
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  headerSubtitle: {
+    marginTop: 4,
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  content: {
+    padding: 24,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+  task: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  taskTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  taskMeta: {
+    marginTop: 4,
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  busy: {
+    marginTop: 12,
+    alignSelf: 'flex-start',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  restoreButton: {
+    backgroundColor: '#eef2ff',
+  },
+  restoreButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4f46e5',
+  },
+  deleteButton: {
+    backgroundColor: '#fee2e2',
+  },
+  deleteButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#dc2626',
+  },
+});
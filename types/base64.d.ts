@@ -0,0 +1,3 @@
+// Built into Hermes (and Node, for tests)
+declare function btoa(data: string): string;
+declare function atob(data: string): string;
@@ -0,0 +1,4 @@
+// Provided by react-native-get-random-values, imported in lib/sessionStorage.ts
+declare const crypto: {
+  getRandomValues<T extends ArrayBufferView>(array: T): T;
+};
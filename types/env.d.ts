@@ -0,0 +1,12 @@
+// Values from .env, inlined at build time by react-native-dotenv
+declare module '@env' {
+  export const APP_FLAVOR: string | undefined;
+  export const DEV_SUPABASE_URL: string | undefined;
+  export const DEV_SUPABASE_ANON_KEY: string | undefined;
+  export const STAGING_SUPABASE_URL: string | undefined;
+  export const STAGING_SUPABASE_ANON_KEY: string | undefined;
+  export const PROD_SUPABASE_URL: string | undefined;
+  export const PROD_SUPABASE_ANON_KEY: string | undefined;
+  export const LOCAL_SUPABASE_URL: string | undefined;
+  export const LOCAL_SUPABASE_ANON_KEY: string | undefined;
+}